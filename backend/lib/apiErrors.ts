@@ -0,0 +1,68 @@
+// Every error response has the same shape:
+//   { "error": { "code": "invalid_request", "message": "...", "details": [...] } }
+
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'conflict'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'provider_error'
+  | 'internal';
+
+export interface ErrorDetail {
+  // Where in the request body the problem is, e.g. "mapping.lookUp.mapping.singleBlink"
+  path: string;
+  message: string;
+}
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string,
+    public details?: ErrorDetail[],
+    // Extra response headers, e.g. Retry-After
+    public headers?: Record<string, string>
+  ) {
+    super(message);
+  }
+}
+
+export const badRequest = (message: string, details?: ErrorDetail[]) =>
+  new ApiError(400, 'invalid_request', message, details);
+
+export const methodNotAllowed = (allowed: string[]) =>
+  new ApiError(405, 'method_not_allowed', 'Method not allowed', undefined, { Allow: allowed.join(', ') });
+
+export function sendError(res, error: unknown) {
+  if (!(error instanceof ApiError)) {
+    console.error('Unhandled API error:', error);
+    error = new ApiError(500, 'internal', 'Something went wrong');
+  }
+  const { status, code, message, details, headers } = error as ApiError;
+  for (const [name, value] of Object.entries(headers ?? {})) res.setHeader(name, value);
+  res.status(status).json({ error: { code, message, ...(details ? { details } : {}) } });
+}
+
+// Lets route handlers throw ApiError instead of building error responses
+export function withErrors(handler: (req, res) => Promise<void>) {
+  return async (req, res) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+}
+
+// Throws for a failed Supabase query
+export function checkDb(error: { message: string } | null) {
+  if (error) {
+    console.error('Database error:', error.message);
+    throw new ApiError(500, 'internal', 'Database request failed');
+  }
+}
@@ -0,0 +1,70 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { ApiError } from './apiErrors';
+
+const sb = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Requests for a sid must carry `Authorization: Bearer <token>`, either
+//  - a Supabase access token for the signed-in user whose id is the sid, or
+//  - a device token issued by POST /api/device: "dt1.<sid>.<signature>",
+//    signed with DEVICE_TOKEN_SECRET so it only opens its own sid.
+const DEVICE_TOKEN_PREFIX = 'dt1';
+
+export type Principal = { kind: 'user'; userId: string } | { kind: 'device'; sid: string };
+
+function deviceSecret(): string {
+  const secret = process.env.DEVICE_TOKEN_SECRET;
+  if (!secret) throw new ApiError(500, 'internal', 'Device tokens are not configured');
+  return secret;
+}
+
+function sign(sid: string): string {
+  return createHmac('sha256', deviceSecret()).update(sid).digest('base64url');
+}
+
+// A new sid for this device and the token that proves it owns it
+export function issueDeviceToken(): { sid: string; token: string } {
+  const sid = randomUUID();
+  return { sid, token: `${DEVICE_TOKEN_PREFIX}.${sid}.${sign(sid)}` };
+}
+
+function verifyDeviceToken(token: string): string | null {
+  const [prefix, sid, signature] = token.split('.');
+  if (prefix !== DEVICE_TOKEN_PREFIX || !sid || !signature) return null;
+  const expected = Buffer.from(sign(sid));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? sid : null;
+}
+
+async function authenticate(req): Promise<Principal> {
+  const header = req.headers.authorization ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!token) throw new ApiError(401, 'unauthorized', 'Missing bearer token');
+
+  if (token.startsWith(`${DEVICE_TOKEN_PREFIX}.`)) {
+    const sid = verifyDeviceToken(token);
+    if (!sid) throw new ApiError(401, 'unauthorized', 'Invalid device token');
+    return { kind: 'device', sid };
+  }
+
+  const { data, error } = await sb.auth.getUser(token);
+  if (error || !data.user) throw new ApiError(401, 'unauthorized', 'Invalid or expired session');
+  return { kind: 'user', userId: data.user.id };
+}
+
+// The caller, once shown to own `sid`; throws 401/403 otherwise
+export async function requireOwner(req, sid: unknown): Promise<{ sid: string; principal: Principal }> {
+  if (typeof sid !== 'string' || !sid) throw new ApiError(400, 'invalid_request', 'sid is required');
+  const principal = await authenticate(req);
+  const owner = principal.kind === 'user' ? principal.userId : principal.sid;
+  if (owner !== sid) throw new ApiError(403, 'forbidden', 'This sid belongs to someone else');
+  return { sid, principal };
+}
+
+// Resolves once the caller is shown to own `sid`; throws 401/403 otherwise
+export async function requireSid(req, sid: unknown): Promise<string> {
+  return (await requireOwner(req, sid)).sid;
+}
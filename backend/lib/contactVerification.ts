@@ -0,0 +1,76 @@
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { ApiError, checkDb } from './apiErrors';
+import { createRateLimiter } from './rateLimit';
+import { getSmsProvider } from './smsProvider';
+
+const sb = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// A caregiver's number only receives alerts once they have typed back the
+// code texted to it, so a sid cannot turn alerts on someone else's phone.
+export const VERIFICATION_CODE_TTL_MS = 15 * 60 * 1000;
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+
+// Codes each sid, and each client address, may have texted per hour
+const sidCodeLimiter = createRateLimiter(5, 60 * 60 * 1000);
+const addressCodeLimiter = createRateLimiter(10, 60 * 60 * 1000);
+
+// The code is tied to the number it was sent to
+const hashCode = (phone: string, code: string) => createHash('sha256').update(`${phone}:${code}`).digest('hex');
+
+export const verificationMessage = (code: string) =>
+  `Blink Speech: ${code} is your code to receive caregiver alerts. If you did not expect this, ignore this message.`;
+
+// Texts a new code to the contact's number, replacing any earlier one.
+// Resolves to false if the SMS provider failed; the code can be resent.
+export async function sendVerificationCode(sid: string, contact: { id: string; phone: string }, address: string) {
+  sidCodeLimiter.consume(sid);
+  addressCodeLimiter.consume(address);
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+  const { error } = await sb
+    .from('caregiver_contacts')
+    .update({
+      verification_code_hash: hashCode(contact.phone, code),
+      verification_expires_at: new Date(Date.now() + VERIFICATION_CODE_TTL_MS).toISOString(),
+      verification_attempts: 0,
+    })
+    .eq('sid', sid)
+    .eq('id', contact.id);
+  checkDb(error);
+
+  try {
+    await getSmsProvider().send(contact.phone, verificationMessage(code));
+    return true;
+  } catch (sendError) {
+    console.error('Failed to send verification code:', sendError);
+    return false;
+  }
+}
+
+// Marks the contact verified if `code` is the one last sent; throws 400 otherwise
+export async function confirmVerificationCode(sid: string, row, code: string) {
+  if (row.verified_at) return;
+  if (!row.verification_code_hash || Date.parse(row.verification_expires_at) < Date.now()) {
+    throw new ApiError(400, 'invalid_request', 'The code has expired; send a new one');
+  }
+  if (row.verification_attempts >= MAX_VERIFICATION_ATTEMPTS) {
+    throw new ApiError(400, 'invalid_request', 'Too many wrong codes; send a new one');
+  }
+
+  const expected = Buffer.from(row.verification_code_hash);
+  const actual = Buffer.from(hashCode(row.phone, code.trim()));
+  const matches = expected.length === actual.length && timingSafeEqual(expected, actual);
+  const { error } = await sb
+    .from('caregiver_contacts')
+    .update(matches
+      ? { verified_at: new Date().toISOString(), verification_code_hash: null, verification_expires_at: null }
+      : { verification_attempts: row.verification_attempts + 1 })
+    .eq('sid', sid)
+    .eq('id', row.id);
+  checkDb(error);
+  if (!matches) throw new ApiError(400, 'invalid_request', 'That code is not right');
+}
@@ -0,0 +1,159 @@
+import { badRequest } from './apiErrors';
+
+// Caregiver contacts stored per sid, and who should get which alert when
+
+export const ALERT_LEVELS = ['emergency', 'urgent', 'info'] as const;
+export type AlertLevel = (typeof ALERT_LEVELS)[number];
+
+export interface QuietHours {
+  // Local "HH:MM" times; the range may cross midnight, e.g. 22:00 to 07:00
+  start: string;
+  end: string;
+  timezone: string;
+}
+
+export interface Contact {
+  id?: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  relationship: string | null;
+  alertLevels: AlertLevel[];
+  quietHours: QuietHours | null;
+  // Set once the contact typed back the code texted to their number; read-only
+  verified?: boolean;
+}
+
+export const MAX_NAME_LENGTH = 100;
+export const MAX_RELATIONSHIP_LENGTH = 60;
+export const MAX_EMAIL_LENGTH = 254;
+
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Contact ids are generated by the database as UUIDs
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAlertLevel = (value: unknown): value is AlertLevel => ALERT_LEVELS.includes(value as AlertLevel);
+
+export const isContactId = (value: unknown): value is string => typeof value === 'string' && ID_PATTERN.test(value);
+
+// Throws 400 unless `value` is a contact id
+export function requireContactId(value: unknown, path = 'id'): string {
+  if (!isContactId(value)) throw badRequest(`${path} is not a contact id`, [{ path, message: 'must be a UUID' }]);
+  return value;
+}
+
+// The contact in a request body, or an error message describing what is wrong
+export function parseContact(body: unknown): { contact: Contact } | { error: string } {
+  if (!isRecord(body)) return { error: 'contact is required' };
+  const { id, name, phone, email, relationship, alertLevels, quietHours } = body;
+
+  if (id !== undefined && id !== null && !isContactId(id)) return { error: 'id is not a contact id' };
+  if (typeof name !== 'string' || !name.trim()) return { error: 'name is required' };
+  if (name.trim().length > MAX_NAME_LENGTH) return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+  if (typeof phone !== 'string' || !PHONE_PATTERN.test(phone)) {
+    return { error: 'phone must be in E.164 format, e.g. +14155552671' };
+  }
+  if (email && (typeof email !== 'string' || email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email))) {
+    return { error: 'email is not a valid address' };
+  }
+  if (relationship && (typeof relationship !== 'string' || relationship.trim().length > MAX_RELATIONSHIP_LENGTH)) {
+    return { error: `relationship must be text of at most ${MAX_RELATIONSHIP_LENGTH} characters` };
+  }
+  const levels = alertLevels ?? ['emergency'];
+  if (!Array.isArray(levels) || !levels.every(isAlertLevel)) {
+    return { error: `alertLevels may only contain ${ALERT_LEVELS.join(', ')}` };
+  }
+  let hours: QuietHours | null = null;
+  if (quietHours) {
+    if (!isRecord(quietHours)) return { error: 'quietHours must have start, end and timezone' };
+    const { start, end, timezone } = quietHours;
+    if (typeof start !== 'string' || !TIME_PATTERN.test(start) || typeof end !== 'string' || !TIME_PATTERN.test(end)) {
+      return { error: 'quietHours start and end must be HH:MM' };
+    }
+    if (!isValidTimezone(timezone)) return { error: 'quietHours timezone is not recognised' };
+    hours = { start, end, timezone };
+  }
+
+  return {
+    contact: {
+      ...(isContactId(id) ? { id } : {}),
+      name: name.trim(),
+      phone,
+      email: typeof email === 'string' && email ? email : null,
+      relationship: typeof relationship === 'string' && relationship.trim() ? relationship.trim() : null,
+      alertLevels: levels,
+      quietHours: hours,
+    },
+  };
+}
+
+function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Minutes past midnight in `timezone`
+function localMinutes(now: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  return value('hour') * 60 + value('minute');
+}
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+export function isInQuietHours(quietHours: QuietHours | null, now: Date): boolean {
+  if (!quietHours) return false;
+  const current = localMinutes(now, quietHours.timezone);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+}
+
+// Why a contact should not get an alert of `level` now, or null if they should.
+// Emergencies go through quiet hours.
+export function alertSkipReason(contact: Contact, level: AlertLevel, now: Date): string | null {
+  if (!contact.alertLevels.includes(level)) return 'level';
+  if (level !== 'emergency' && isInQuietHours(contact.quietHours, now)) return 'quietHours';
+  return null;
+}
+
+export function toRow(sid: string, contact: Contact) {
+  return {
+    ...(contact.id ? { id: contact.id } : {}),
+    sid,
+    name: contact.name,
+    phone: contact.phone,
+    email: contact.email,
+    relationship: contact.relationship,
+    alert_levels: contact.alertLevels,
+    quiet_hours: contact.quietHours,
+  };
+}
+
+export function fromRow(row): Contact {
+  return {
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    email: row.email,
+    relationship: row.relationship,
+    alertLevels: row.alert_levels ?? [],
+    quietHours: row.quiet_hours,
+    verified: row.verified_at != null,
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { diffMappings } from './mappingDiff';
+
+const needs = (mapping: Record<string, unknown>, label = 'Needs') => ({ label, mapping });
+
+describe('diffMappings', () => {
+  it('reports nothing for equal mappings', () => {
+    const mapping = { longBlink: 'Stop', lookUp: needs({ singleBlink: 'Water please' }) };
+    expect(diffMappings(mapping, structuredClone(mapping))).toEqual([]);
+  });
+
+  it('reports added, removed and changed phrases', () => {
+    expect(diffMappings(
+      { longBlink: 'Stop', doubleBlink: 'Yes' },
+      { longBlink: 'Wait', tripleBlink: 'No' }
+    )).toEqual([
+      { path: ['longBlink'], kind: 'changed', before: 'Stop', after: 'Wait' },
+      { path: ['doubleBlink'], kind: 'removed', before: 'Yes' },
+      { path: ['tripleBlink'], kind: 'added', after: 'No' }
+    ]);
+  });
+
+  it('reports a change inside a sub-board at its path', () => {
+    expect(diffMappings(
+      { lookUp: needs({ singleBlink: 'Water please', doubleBlink: "I'm hungry" }) },
+      { lookUp: needs({ singleBlink: 'Tea please', doubleBlink: "I'm hungry" }) }
+    )).toEqual([
+      { path: ['lookUp', 'singleBlink'], kind: 'changed', before: 'Water please', after: 'Tea please' }
+    ]);
+  });
+
+  it('reports a renamed sub-board along with the changes in it', () => {
+    expect(diffMappings(
+      { lookUp: needs({ singleBlink: 'Water please' }) },
+      { lookUp: needs({ singleBlink: 'Water please', longBlink: 'Pain' }, 'Body') }
+    )).toEqual([
+      { path: ['lookUp'], kind: 'changed', before: 'Needs', after: 'Body' },
+      { path: ['lookUp', 'longBlink'], kind: 'added', after: 'Pain' }
+    ]);
+  });
+
+  it('marks a phrase turned into a sub-board of the same name', () => {
+    expect(diffMappings({ lookUp: 'Needs' }, { lookUp: needs({}) })).toEqual([
+      { path: ['lookUp'], kind: 'changed', before: 'Needs', after: 'Needs (sub-board)' }
+    ]);
+  });
+
+  it('reports a whole sub-board as added or removed', () => {
+    expect(diffMappings({}, { lookUp: needs({ singleBlink: 'Water please' }) })).toEqual([
+      { path: ['lookUp'], kind: 'added', after: 'Needs (sub-board)' }
+    ]);
+    expect(diffMappings({ lookUp: needs({}) }, {})).toEqual([
+      { path: ['lookUp'], kind: 'removed', before: 'Needs (sub-board)' }
+    ]);
+  });
+});
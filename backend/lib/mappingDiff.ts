@@ -0,0 +1,49 @@
+// What changed between two gesture mappings, gesture by gesture. Sub-boards
+// are compared entry by entry, so a phrase changed deep inside one is
+// reported at its path rather than as the whole board changing.
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface MappingChange {
+  // Gesture keys from the home board down to the entry
+  path: string[];
+  kind: ChangeKind;
+  // Phrase, or a sub-board's label, on each side
+  before?: string;
+  after?: string;
+}
+
+interface Board {
+  label: string;
+  mapping: Record<string, unknown>;
+}
+
+const isBoard = (entry: unknown): entry is Board =>
+  typeof entry === 'object' && entry !== null && 'mapping' in entry;
+
+// Sub-boards are marked so turning a phrase into a board of the same name shows
+const entryText = (entry: unknown) => (isBoard(entry) ? `${entry.label} (sub-board)` : String(entry));
+
+export function diffMappings(before: Record<string, unknown>, after: Record<string, unknown>, path: string[] = []): MappingChange[] {
+  const changes: MappingChange[] = [];
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    const old = before?.[key];
+    const next = after?.[key];
+    const entryPath = [...path, key];
+    if (old === undefined) {
+      changes.push({ path: entryPath, kind: 'added', after: entryText(next) });
+    } else if (next === undefined) {
+      changes.push({ path: entryPath, kind: 'removed', before: entryText(old) });
+    } else if (isBoard(old) && isBoard(next)) {
+      if (old.label !== next.label) {
+        changes.push({ path: entryPath, kind: 'changed', before: old.label, after: next.label });
+      }
+      changes.push(...diffMappings(old.mapping, next.mapping, entryPath));
+    } else if (old !== next) {
+      changes.push({ path: entryPath, kind: 'changed', before: entryText(old), after: entryText(next) });
+    }
+  }
+  return changes;
+}
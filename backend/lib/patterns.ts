@@ -0,0 +1,184 @@
+import { createClient } from '@supabase/supabase-js';
+import { ApiError, badRequest, checkDb } from './apiErrors';
+import type { Principal } from './auth';
+
+const sb = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Revisions kept per sid; older ones are dropped as new ones are saved
+export const MAX_REVISIONS = 200;
+export const MAX_AUTHOR_LENGTH = 60;
+
+// A value is either a phrase or a sub-board: { label, mapping } with its own gestures
+export const defaultMapping = {
+  doubleBlink_lookLeft: "Help",
+  tripleBlink_lookRight: "Yes",
+  longBlink: "Stop",
+  lookUp: {
+    label: "Needs",
+    mapping: {
+      singleBlink: "Water please",
+      doubleBlink: "I'm hungry"
+    }
+  }
+};
+
+export interface SaveOptions {
+  // Version the edit was based on; without it the save overwrites what is stored
+  baseVersion?: number;
+  // ISO time the edit was made
+  updatedAt: string;
+  // Name the editor gave, if any, and how they signed in
+  author: string | null;
+  principal: Principal;
+  // Version this save brings back, for restores
+  restoredFrom?: number;
+}
+
+export interface RevisionSummary {
+  version: number;
+  author: string | null;
+  authorKind: Principal['kind'] | null;
+  restoredFrom: number | null;
+  updatedAt: string;
+}
+
+// Another device saved first; the client fetches the newer copy and reconciles
+const versionConflict = (version: number) =>
+  new ApiError(409, 'conflict', `Mapping has changed on the server (version ${version})`);
+
+// Client's last-modified time, so an edit made offline keeps its real time
+export function parseUpdatedAt(value: unknown): string {
+  if (value === undefined) return new Date().toISOString();
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) throw badRequest('updatedAt must be an ISO date');
+  return new Date(time).toISOString();
+}
+
+export function parseAuthor(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || value.length > MAX_AUTHOR_LENGTH) {
+    throw badRequest(`author must be text of at most ${MAX_AUTHOR_LENGTH} characters`);
+  }
+  return value.trim() || null;
+}
+
+// A version number from the query string or body; 0 stands for "nothing saved"
+export function parseVersion(value: unknown, name: string): number {
+  const version = typeof value === 'string' ? Number(value) : value;
+  if (!Number.isInteger(version) || (version as number) < 0) {
+    throw badRequest(`${name} must be a non-negative integer`);
+  }
+  return version as number;
+}
+
+export async function readPattern(sid: string) {
+  const { data, error } = await sb
+    .from('patterns')
+    .select('mapping, version, updated_at')
+    .eq('sid', sid)
+    .maybeSingle();
+  checkDb(error);
+  // Version 0 means nothing has been saved yet
+  return {
+    mapping: data?.mapping ?? defaultMapping,
+    version: (data?.version as number | undefined) ?? 0,
+    updatedAt: (data?.updated_at as string | undefined) ?? null
+  };
+}
+
+// The stored version, 0 if nothing has been saved
+async function readVersion(sid: string): Promise<number> {
+  const { data, error } = await sb
+    .from('patterns')
+    .select('version')
+    .eq('sid', sid)
+    .maybeSingle();
+  checkDb(error);
+  return (data?.version as number | undefined) ?? 0;
+}
+
+// Store a validated mapping as the next version and record it as a revision
+export async function savePattern(sid: string, mapping: unknown, options: SaveOptions) {
+  const currentVersion = await readVersion(sid);
+  if (options.baseVersion !== undefined && options.baseVersion !== currentVersion) {
+    throw versionConflict(currentVersion);
+  }
+
+  const version = currentVersion + 1;
+  const row = { mapping, version, updated_at: options.updatedAt };
+  if (currentVersion > 0) {
+    // Only update the version that was read, in case another save got in between
+    const { data, error } = await sb
+      .from('patterns')
+      .update(row)
+      .eq('sid', sid)
+      .eq('version', currentVersion)
+      .select('version')
+      .maybeSingle();
+    checkDb(error);
+    if (!data) throw versionConflict(await readVersion(sid));
+  } else {
+    const { error } = await sb.from('patterns').insert({ sid, ...row });
+    // 23505: a first save from another device created the row meanwhile
+    if (error?.code === '23505') throw versionConflict(await readVersion(sid));
+    checkDb(error);
+  }
+
+  const { error: revisionError } = await sb.from('pattern_revisions').insert({
+    sid,
+    ...row,
+    author: options.author,
+    author_kind: options.principal.kind,
+    restored_from: options.restoredFrom ?? null
+  });
+  checkDb(revisionError);
+  if (version > MAX_REVISIONS) {
+    const { error } = await sb
+      .from('pattern_revisions')
+      .delete()
+      .eq('sid', sid)
+      .lte('version', version - MAX_REVISIONS);
+    checkDb(error);
+  }
+
+  return { version, updatedAt: options.updatedAt };
+}
+
+const toSummary = (row): RevisionSummary => ({
+  version: row.version,
+  author: row.author,
+  authorKind: row.author_kind,
+  restoredFrom: row.restored_from,
+  updatedAt: row.updated_at
+});
+
+// Newest first, without the snapshots
+export async function listRevisions(sid: string, limit: number): Promise<RevisionSummary[]> {
+  const { data, error } = await sb
+    .from('pattern_revisions')
+    .select('version, author, author_kind, restored_from, updated_at')
+    .eq('sid', sid)
+    .order('version', { ascending: false })
+    .limit(limit);
+  checkDb(error);
+  return (data ?? []).map(toSummary);
+}
+
+// One revision with its snapshot; version 0 is the empty mapping before the first save
+export async function getRevision(sid: string, version: number) {
+  if (version === 0) {
+    return { version: 0, author: null, authorKind: null, restoredFrom: null, updatedAt: null, mapping: {} };
+  }
+  const { data, error } = await sb
+    .from('pattern_revisions')
+    .select('version, author, author_kind, restored_from, updated_at, mapping')
+    .eq('sid', sid)
+    .eq('version', version)
+    .maybeSingle();
+  checkDb(error);
+  if (!data) throw new ApiError(404, 'not_found', `Revision ${version} not found`);
+  return { ...toSummary(data), mapping: data.mapping };
+}
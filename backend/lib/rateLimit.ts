@@ -0,0 +1,40 @@
+import { ApiError } from './apiErrors';
+
+// Fixed-window counters kept in memory. Each server instance counts on its
+// own, so with several instances the effective limit is multiplied.
+export function createRateLimiter(limit: number, windowMs: number) {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  // Counts a request for `key`, throwing 429 once the window's limit is reached
+  function consume(key: string, now = Date.now()) {
+    let window = windows.get(key);
+    if (!window || now - window.start >= windowMs) {
+      window = { start: now, count: 0 };
+      windows.set(key, window);
+    }
+    if (window.count >= limit) {
+      const retryAfterS = Math.ceil((window.start + windowMs - now) / 1000);
+      throw new ApiError(429, 'rate_limited', `Too many requests; try again in ${retryAfterS}s`, undefined, {
+        'Retry-After': String(retryAfterS),
+      });
+    }
+    window.count++;
+  }
+
+  return { consume };
+}
+
+// The address to rate limit a request by. X-Forwarded-For is whatever the
+// client sent unless our own proxies rewrite it, so it is only read when
+// TRUSTED_PROXY_HOPS says how many proxies sit in front of the server: each
+// appends the address it received from, so the client is that many from the end.
+export function clientAddress(req): string {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS) || 0;
+  const forwarded = req.headers?.['x-forwarded-for'];
+  if (hops > 0 && typeof forwarded === 'string') {
+    const addresses = forwarded.split(',').map(address => address.trim()).filter(Boolean);
+    const address = addresses[addresses.length - hops];
+    if (address) return address;
+  }
+  return req.socket?.remoteAddress ?? 'unknown';
+}
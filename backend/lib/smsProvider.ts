@@ -0,0 +1,66 @@
+import twilio from 'twilio';
+import { ApiError } from './apiErrors';
+
+// Anything that can deliver a text message. Twilio is used in production;
+// the stub logs messages instead, for tests and offline development.
+export interface SmsProvider {
+  name: string;
+  send(to: string, body: string): Promise<void>;
+}
+
+export interface SentMessage {
+  to: string;
+  body: string;
+  sentAt: string;
+}
+
+export function createTwilioProvider(
+  accountSid: string,
+  authToken: string,
+  from: string
+): SmsProvider {
+  const client = twilio(accountSid, authToken);
+  return {
+    name: 'twilio',
+    async send(to, body) {
+      await client.messages.create({ body, from, to });
+    },
+  };
+}
+
+// Keeps every message in `outbox` instead of sending it
+export function createStubProvider(outbox: SentMessage[] = []): SmsProvider & { outbox: SentMessage[] } {
+  return {
+    name: 'stub',
+    outbox,
+    async send(to, body) {
+      const message = { to, body, sentAt: new Date().toISOString() };
+      outbox.push(message);
+      console.log('[sms:stub]', message);
+    },
+  };
+}
+
+let provider: SmsProvider | null = null;
+
+// Twilio, or the stub only when SMS_PROVIDER=stub is set. Alerts are a safety
+// feature, so missing Twilio settings fail the send (503) rather than quietly
+// logging a message nobody receives.
+export function getSmsProvider(): SmsProvider {
+  if (provider) return provider;
+  const { SMS_PROVIDER, TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER } = process.env;
+  if (SMS_PROVIDER === 'stub') {
+    provider = createStubProvider();
+  } else if (TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_PHONE_NUMBER) {
+    provider = createTwilioProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER);
+  } else {
+    console.error('SMS is not configured: set the TWILIO_* variables, or SMS_PROVIDER=stub for development');
+    throw new ApiError(503, 'provider_error', 'SMS sending is not configured');
+  }
+  return provider;
+}
+
+// Swap the provider, e.g. for a stub in tests
+export function setSmsProvider(next: SmsProvider | null) {
+  provider = next;
+}
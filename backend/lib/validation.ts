@@ -0,0 +1,73 @@
+import { badRequest, type ErrorDetail } from './apiErrors';
+
+export const MAX_PHRASE_LENGTH = 200;
+// Gestures across the whole mapping, sub-boards included
+export const MAX_MAPPING_ENTRIES = 200;
+export const MAX_BOARD_DEPTH = 5;
+
+// Built-in keys such as "doubleBlink", "lookUp" or "doubleBlink_lookUp"
+const NAMED_GESTURE = /^[a-z][A-Za-z]{1,30}(_look(Up|Down|Left|Right))?$/;
+// Custom patterns in canonical form, e.g. "long, short, short" or "wink-left, look-up"
+const PATTERN_TOKEN = '(short|long|wink-left|wink-right|look-(up|down|left|right))';
+const CUSTOM_PATTERN = new RegExp(`^${PATTERN_TOKEN}(, ${PATTERN_TOKEN}){0,9}$`);
+
+export function isGestureKey(key: string): boolean {
+  return NAMED_GESTURE.test(key) || CUSTOM_PATTERN.test(key);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function checkText(value: unknown, path: string, issues: ErrorDetail[]) {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: 'must be text' });
+  } else if (value.length > MAX_PHRASE_LENGTH) {
+    issues.push({ path, message: `must be at most ${MAX_PHRASE_LENGTH} characters` });
+  }
+}
+
+// Every problem in a gesture mapping (phrases and nested { label, mapping } boards)
+export function mappingIssues(mapping: unknown, path = 'mapping'): ErrorDetail[] {
+  const issues: ErrorDetail[] = [];
+  let entries = 0;
+
+  function walk(board: unknown, boardPath: string, depth: number) {
+    if (!isRecord(board)) {
+      issues.push({ path: boardPath, message: 'must be an object of gesture keys' });
+      return;
+    }
+    if (depth > MAX_BOARD_DEPTH) {
+      issues.push({ path: boardPath, message: `boards may be nested at most ${MAX_BOARD_DEPTH} deep` });
+      return;
+    }
+    for (const [key, entry] of Object.entries(board)) {
+      const entryPath = `${boardPath}.${key}`;
+      entries++;
+      if (!isGestureKey(key)) issues.push({ path: entryPath, message: 'is not a valid gesture key' });
+      if (isRecord(entry)) {
+        checkText(entry.label, `${entryPath}.label`, issues);
+        walk(entry.mapping, `${entryPath}.mapping`, depth + 1);
+      } else {
+        checkText(entry, entryPath, issues);
+      }
+    }
+  }
+
+  walk(mapping, path, 1);
+  if (entries > MAX_MAPPING_ENTRIES) {
+    issues.unshift({ path, message: `may contain at most ${MAX_MAPPING_ENTRIES} gestures` });
+  }
+  return issues;
+}
+
+export function validateMapping(mapping: unknown, path = 'mapping') {
+  const issues = mappingIssues(mapping, path);
+  if (issues.length > 0) throw badRequest('Invalid gesture mapping', issues);
+}
+
+// Throws unless `value` is a non-empty string of at most `max` characters
+export function requireText(value: unknown, path: string, max = MAX_PHRASE_LENGTH): string {
+  if (typeof value !== 'string' || !value.trim()) throw badRequest(`${path} is required`, [{ path, message: 'is required' }]);
+  if (value.length > max) throw badRequest(`${path} is too long`, [{ path, message: `must be at most ${max} characters` }]);
+  return value;
+}
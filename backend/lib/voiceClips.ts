@@ -0,0 +1,53 @@
+import { badRequest, type ErrorDetail } from './apiErrors';
+import { MAX_PHRASE_LENGTH } from './validation';
+
+// Voice bank clips are audio data URLs, one per phrase. The app sends trimmed
+// WAV files; other formats a browser records or plays are accepted too.
+export const ALLOWED_AUDIO_TYPES = [
+  'audio/wav',
+  'audio/wave',
+  'audio/x-wav',
+  'audio/webm',
+  'audio/ogg',
+  'audio/mpeg',
+  'audio/mp4',
+];
+// Decoded size of one clip; about 20 seconds of the app's WAV recordings
+export const MAX_CLIP_BYTES = 2 * 1024 * 1024;
+// Clips stored per sid, one for every phrase a full mapping can hold
+export const MAX_CLIPS = 200;
+
+// "data:<type>[;param=value...];base64,<data>"
+const DATA_URL = /^data:([a-z]+\/[a-z0-9.+-]+)((?:;[a-z0-9-]+=[^;,]+)*);base64,([A-Za-z0-9+/]*={0,2})$/i;
+
+// Bytes the base64 text decodes to
+const decodedSize = (base64: string) => Math.floor((base64.length * 3) / 4) - (base64.match(/=*$/)?.[0].length ?? 0);
+
+function clipIssue(dataUrl: unknown): string | null {
+  if (typeof dataUrl !== 'string') return 'must be an audio data URL';
+  const match = DATA_URL.exec(dataUrl);
+  if (!match) return 'must be a base64 audio data URL';
+  if (!ALLOWED_AUDIO_TYPES.includes(match[1].toLowerCase())) {
+    return `must be one of ${ALLOWED_AUDIO_TYPES.join(', ')}`;
+  }
+  if (decodedSize(match[3]) > MAX_CLIP_BYTES) return `must be at most ${MAX_CLIP_BYTES / 1024 / 1024} MB`;
+  return null;
+}
+
+// The clips in a request body as phrase → data URL; throws 400 listing every bad clip
+export function parseClips(clips: unknown): Record<string, string> {
+  if (!clips || typeof clips !== 'object' || Array.isArray(clips)) {
+    throw badRequest('clips must map phrases to audio data URLs');
+  }
+  const issues: ErrorDetail[] = [];
+  for (const [phrase, dataUrl] of Object.entries(clips)) {
+    const path = `clips.${phrase}`;
+    if (!phrase.trim() || phrase.length > MAX_PHRASE_LENGTH) {
+      issues.push({ path, message: `phrase must be 1 to ${MAX_PHRASE_LENGTH} characters` });
+    }
+    const issue = clipIssue(dataUrl);
+    if (issue) issues.push({ path, message: issue });
+  }
+  if (issues.length > 0) throw badRequest('Invalid voice clips', issues);
+  return clips as Record<string, string>;
+}
@@ -0,0 +1,62 @@
+import { createClient } from '@supabase/supabase-js';
+import { badRequest, checkDb, methodNotAllowed, withErrors } from '../../../lib/apiErrors';
+import { requireSid } from '../../../lib/auth';
+import { requireText } from '../../../lib/validation';
+import { MAX_CLIPS, parseClips } from '../../../lib/voiceClips';
+
+const sb = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Recorded clips are sent as base64 data URLs, larger than the 1mb default
+export const config = {
+  api: { bodyParser: { sizeLimit: '10mb' } },
+};
+
+// Voice bank clips, one row per phrase, as data URLs
+export default withErrors(async function handler(req, res) {
+  const sid = await requireSid(req, req.query.sid);
+  const { phrase } = req.query;
+
+  if (req.method === 'GET') {
+    const { data, error } = await sb
+      .from('voice_clips')
+      .select('phrase, audio')
+      .eq('sid', sid);
+
+    checkDb(error);
+    const clips = Object.fromEntries((data ?? []).map(row => [row.phrase, row.audio]));
+    res.status(200).json({ clips });
+  } else if (req.method === 'POST') {
+    const clips = parseClips(req.body?.clips);
+    const rows = Object.entries(clips).map(([clipPhrase, audio]) => ({ sid, phrase: clipPhrase, audio }));
+
+    // Re-recording a phrase replaces its clip, so only new phrases count towards the limit
+    const { data: stored, error: countError } = await sb
+      .from('voice_clips')
+      .select('phrase')
+      .eq('sid', sid);
+    checkDb(countError);
+    const phrases = new Set([...(stored ?? []).map(row => row.phrase), ...Object.keys(clips)]);
+    if (phrases.size > MAX_CLIPS) throw badRequest(`At most ${MAX_CLIPS} voice clips can be stored`);
+
+    if (rows.length > 0) {
+      const { error } = await sb
+        .from('voice_clips')
+        .upsert(rows, { onConflict: 'sid,phrase' });
+      checkDb(error);
+    }
+    res.status(201).json({ success: true, saved: rows.length });
+  } else if (req.method === 'DELETE') {
+    const { error } = await sb
+      .from('voice_clips')
+      .delete()
+      .eq('sid', sid)
+      .eq('phrase', requireText(phrase, 'phrase'));
+    checkDb(error);
+    res.status(200).json({ success: true });
+  } else {
+    throw methodNotAllowed(['GET', 'POST', 'DELETE']);
+  }
+});
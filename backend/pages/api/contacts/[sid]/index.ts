@@ -0,0 +1,95 @@
+import { createClient } from '@supabase/supabase-js';
+import { fromRow, parseContact, requireContactId, toRow } from '../../../../lib/contacts';
+import { ApiError, badRequest, checkDb, methodNotAllowed, withErrors } from '../../../../lib/apiErrors';
+import { requireSid } from '../../../../lib/auth';
+import { sendVerificationCode } from '../../../../lib/contactVerification';
+import { clientAddress, createRateLimiter } from '../../../../lib/rateLimit';
+
+const sb = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const MAX_CONTACTS = 20;
+
+// New contacts each sid may add per day; each one texts a verification code
+const contactLimiter = createRateLimiter(10, 24 * 60 * 60 * 1000);
+
+// A rate-limited code is not an error for the save itself; the client can resend it later
+async function sendCode(sid: string, row, req): Promise<boolean> {
+  try {
+    return await sendVerificationCode(sid, row, clientAddress(req));
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 429) return false;
+    throw error;
+  }
+}
+
+// Caregiver contacts who receive alerts for a user. A new or changed number
+// is texted a code and gets no alerts until it is confirmed (see ./verify).
+export default withErrors(async function handler(req, res) {
+  const sid = await requireSid(req, req.query.sid);
+  const { id } = req.query;
+
+  if (req.method === 'GET') {
+    const { data, error } = await sb
+      .from('caregiver_contacts')
+      .select('*')
+      .eq('sid', sid)
+      .order('created_at');
+
+    checkDb(error);
+    res.status(200).json({ contacts: (data ?? []).map(fromRow) });
+  } else if (req.method === 'POST') {
+    const parsed = parseContact(req.body?.contact);
+    if ('error' in parsed) throw badRequest(parsed.error);
+    const row = toRow(sid, parsed.contact);
+
+    if (parsed.contact.id) {
+      // Scoped to the sid so one user cannot overwrite another's contact by id
+      const { data: existing, error: readError } = await sb
+        .from('caregiver_contacts')
+        .select('phone')
+        .eq('sid', sid)
+        .eq('id', parsed.contact.id)
+        .maybeSingle();
+      checkDb(readError);
+      if (!existing) throw new ApiError(404, 'not_found', 'Contact not found');
+
+      const phoneChanged = existing.phone !== row.phone;
+      const { data, error } = await sb
+        .from('caregiver_contacts')
+        .update(phoneChanged ? { ...row, verified_at: null } : row)
+        .eq('sid', sid)
+        .eq('id', parsed.contact.id)
+        .select()
+        .single();
+      checkDb(error);
+      const verificationSent = phoneChanged ? await sendCode(sid, data, req) : undefined;
+      res.status(200).json({ contact: fromRow(data), verificationSent });
+    } else {
+      contactLimiter.consume(sid);
+      const { count, error: countError } = await sb
+        .from('caregiver_contacts')
+        .select('id', { count: 'exact', head: true })
+        .eq('sid', sid);
+      checkDb(countError);
+      if ((count ?? 0) >= MAX_CONTACTS) throw badRequest(`A user may have at most ${MAX_CONTACTS} contacts`);
+
+      const { data, error } = await sb.from('caregiver_contacts').insert(row).select().single();
+      checkDb(error);
+      const verificationSent = await sendCode(sid, data, req);
+      res.status(201).json({ contact: fromRow(data), verificationSent });
+    }
+  } else if (req.method === 'DELETE') {
+    const { error } = await sb
+      .from('caregiver_contacts')
+      .delete()
+      .eq('sid', sid)
+      .eq('id', requireContactId(id));
+    checkDb(error);
+    res.status(200).json({ success: true });
+  } else {
+    throw methodNotAllowed(['GET', 'POST', 'DELETE']);
+  }
+});
@@ -0,0 +1,43 @@
+import { createClient } from '@supabase/supabase-js';
+import { fromRow, requireContactId } from '../../../../lib/contacts';
+import { ApiError, checkDb, methodNotAllowed, withErrors } from '../../../../lib/apiErrors';
+import { requireSid } from '../../../../lib/auth';
+import { confirmVerificationCode, sendVerificationCode } from '../../../../lib/contactVerification';
+import { clientAddress } from '../../../../lib/rateLimit';
+import { requireText } from '../../../../lib/validation';
+
+const sb = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Confirms a contact's number with { id, code }, or texts a new code with { id }
+export default withErrors(async function handler(req, res) {
+  if (req.method !== 'POST') throw methodNotAllowed(['POST']);
+  const sid = await requireSid(req, req.query.sid);
+
+  const { id, code } = req.body ?? {};
+  const { data: row, error } = await sb
+    .from('caregiver_contacts')
+    .select('*')
+    .eq('sid', sid)
+    .eq('id', requireContactId(id))
+    .maybeSingle();
+  checkDb(error);
+  if (!row) throw new ApiError(404, 'not_found', 'Contact not found');
+  if (row.verified_at) {
+    res.status(200).json({ contact: fromRow(row) });
+    return;
+  }
+
+  if (code === undefined) {
+    if (!(await sendVerificationCode(sid, row, clientAddress(req)))) {
+      throw new ApiError(502, 'provider_error', 'Failed to send the code');
+    }
+    res.status(200).json({ contact: fromRow(row), verificationSent: true });
+    return;
+  }
+
+  await confirmVerificationCode(sid, row, requireText(code, 'code', 12));
+  res.status(200).json({ contact: { ...fromRow(row), verified: true } });
+});
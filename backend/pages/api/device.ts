@@ -0,0 +1,16 @@
+import { methodNotAllowed, withErrors } from '../../lib/apiErrors';
+import { issueDeviceToken } from '../../lib/auth';
+import { clientAddress, createRateLimiter } from '../../lib/rateLimit';
+
+// Registrations per client address per hour
+const registrationLimiter = createRateLimiter(20, 60 * 60 * 1000);
+
+// Registers a device without an account: a new sid and the signed token
+// that authorizes requests for it. The client keeps both.
+export default withErrors(async function handler(req, res) {
+  if (req.method !== 'POST') throw methodNotAllowed(['POST']);
+
+  registrationLimiter.consume(clientAddress(req));
+
+  res.status(201).json(issueDeviceToken());
+});
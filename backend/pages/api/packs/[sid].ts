@@ -0,0 +1,46 @@
+import { createClient } from '@supabase/supabase-js';
+import { badRequest, checkDb, methodNotAllowed, withErrors } from '../../../lib/apiErrors';
+import { requireSid } from '../../../lib/auth';
+import { requireText, validateMapping } from '../../../lib/validation';
+
+const sb = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Phrase packs a user has imported, one row per pack id
+export default withErrors(async function handler(req, res) {
+  const sid = await requireSid(req, req.query.sid);
+  const { id } = req.query;
+
+  if (req.method === 'GET') {
+    const { data, error } = await sb
+      .from('phrase_packs')
+      .select('pack')
+      .eq('sid', sid);
+
+    checkDb(error);
+    res.status(200).json({ packs: (data ?? []).map(row => row.pack) });
+  } else if (req.method === 'POST') {
+    const { pack } = req.body ?? {};
+    if (!pack || typeof pack !== 'object') throw badRequest('pack is required');
+    requireText(pack.id, 'pack.id', 64);
+    requireText(pack.language, 'pack.language', 35);
+    validateMapping(pack.mapping, 'pack.mapping');
+    const { error } = await sb
+      .from('phrase_packs')
+      .upsert({ sid, pack_id: pack.id, pack }, { onConflict: 'sid,pack_id' });
+    checkDb(error);
+    res.status(201).json({ success: true });
+  } else if (req.method === 'DELETE') {
+    const { error } = await sb
+      .from('phrase_packs')
+      .delete()
+      .eq('sid', sid)
+      .eq('pack_id', requireText(id, 'id', 64));
+    checkDb(error);
+    res.status(200).json({ success: true });
+  } else {
+    throw methodNotAllowed(['GET', 'POST', 'DELETE']);
+  }
+});
@@ -0,0 +1,21 @@
+import { methodNotAllowed, withErrors } from '../../../../lib/apiErrors';
+import { requireSid } from '../../../../lib/auth';
+import { diffMappings } from '../../../../lib/mappingDiff';
+import { getRevision, parseVersion, readPattern } from '../../../../lib/patterns';
+
+// Changes from revision `from` to revision `to` (the current mapping if omitted).
+// from=0 compares against an empty mapping.
+export default withErrors(async function handler(req, res) {
+  if (req.method !== 'GET') throw methodNotAllowed(['GET']);
+  const sid = await requireSid(req, req.query.sid);
+
+  const from = await getRevision(sid, parseVersion(req.query.from, 'from'));
+  const to = req.query.to === undefined
+    ? await readPattern(sid)
+    : await getRevision(sid, parseVersion(req.query.to, 'to'));
+  res.status(200).json({
+    from: from.version,
+    to: to.version,
+    changes: diffMappings(from.mapping, to.mapping)
+  });
+});
@@ -0,0 +1,25 @@
+import { methodNotAllowed, withErrors } from '../../../../lib/apiErrors';
+import { requireOwner } from '../../../../lib/auth';
+import { validateMapping } from '../../../../lib/validation';
+import { parseAuthor, parseUpdatedAt, parseVersion, readPattern, savePattern } from '../../../../lib/patterns';
+
+// The current mapping; every save is also kept as a revision (see ./revisions)
+export default withErrors(async function handler(req, res) {
+  const { sid, principal } = await requireOwner(req, req.query.sid);
+
+  if (req.method === 'GET') {
+    res.status(200).json(await readPattern(sid));
+  } else if (req.method === 'POST') {
+    const { mapping, baseVersion } = req.body ?? {};
+    validateMapping(mapping);
+    const saved = await savePattern(sid, mapping, {
+      baseVersion: baseVersion === undefined ? undefined : parseVersion(baseVersion, 'baseVersion'),
+      updatedAt: parseUpdatedAt(req.body.updatedAt),
+      author: parseAuthor(req.body.author),
+      principal
+    });
+    res.status(201).json({ success: true, ...saved });
+  } else {
+    throw methodNotAllowed(['GET', 'POST']);
+  }
+});
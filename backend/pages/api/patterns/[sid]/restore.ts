@@ -0,0 +1,27 @@
+import { badRequest, methodNotAllowed, withErrors } from '../../../../lib/apiErrors';
+import { requireOwner } from '../../../../lib/auth';
+import { getRevision, parseAuthor, parseVersion, savePattern } from '../../../../lib/patterns';
+import { validateMapping } from '../../../../lib/validation';
+
+// Bring back an earlier revision by saving its snapshot as a new version, so
+// the restore itself can be undone from the history too. With `baseVersion`
+// it is rejected if the mapping was saved again since that version.
+export default withErrors(async function handler(req, res) {
+  if (req.method !== 'POST') throw methodNotAllowed(['POST']);
+  const { sid, principal } = await requireOwner(req, req.query.sid);
+
+  const { baseVersion } = req.body ?? {};
+  const version = parseVersion(req.body?.version, 'version');
+  if (version === 0) throw badRequest('version must be a saved revision');
+  const revision = await getRevision(sid, version);
+  // Revisions saved before a validation rule was added may not pass it now
+  validateMapping(revision.mapping, 'revision.mapping');
+  const saved = await savePattern(sid, revision.mapping, {
+    baseVersion: baseVersion === undefined ? undefined : parseVersion(baseVersion, 'baseVersion'),
+    updatedAt: new Date().toISOString(),
+    author: parseAuthor(req.body.author),
+    principal,
+    restoredFrom: revision.version
+  });
+  res.status(201).json({ success: true, mapping: revision.mapping, ...saved });
+});
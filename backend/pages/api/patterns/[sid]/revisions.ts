@@ -0,0 +1,17 @@
+import { methodNotAllowed, withErrors } from '../../../../lib/apiErrors';
+import { requireSid } from '../../../../lib/auth';
+import { MAX_REVISIONS, getRevision, listRevisions, parseVersion } from '../../../../lib/patterns';
+
+// Saved versions of the mapping, newest first; ?version=N returns one with its snapshot
+export default withErrors(async function handler(req, res) {
+  if (req.method !== 'GET') throw methodNotAllowed(['GET']);
+  const sid = await requireSid(req, req.query.sid);
+
+  const { version, limit } = req.query;
+  if (version !== undefined) {
+    res.status(200).json({ revision: await getRevision(sid, parseVersion(version, 'version')) });
+    return;
+  }
+  const count = limit === undefined ? 50 : Math.min(parseVersion(limit, 'limit'), MAX_REVISIONS);
+  res.status(200).json({ revisions: await listRevisions(sid, count) });
+});
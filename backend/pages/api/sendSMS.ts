@@ -0,0 +1,62 @@
+import { createClient } from '@supabase/supabase-js';
+import { getSmsProvider } from '../../lib/smsProvider';
+import { ALERT_LEVELS, alertSkipReason, fromRow, requireContactId } from '../../lib/contacts';
+import { ApiError, badRequest, checkDb, methodNotAllowed, withErrors } from '../../lib/apiErrors';
+import { requireSid } from '../../lib/auth';
+import { clientAddress, createRateLimiter } from '../../lib/rateLimit';
+import { requireText } from '../../lib/validation';
+
+const sb = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const SMS_WINDOW_MS = Number(process.env.SMS_RATE_LIMIT_WINDOW_MS) || 15 * 60 * 1000;
+// Messages each sid may send per window (default 10 per 15 minutes)
+const smsLimiter = createRateLimiter(Number(process.env.SMS_RATE_LIMIT_MAX) || 10, SMS_WINDOW_MS);
+// Per client address, since one client can register many sids (default 30)
+const addressLimiter = createRateLimiter(Number(process.env.SMS_RATE_LIMIT_ADDRESS_MAX) || 30, SMS_WINDOW_MS);
+// Across the whole server, a cap on what the SMS account can be made to send (default 300)
+const globalLimiter = createRateLimiter(Number(process.env.SMS_RATE_LIMIT_GLOBAL_MAX) || 300, SMS_WINDOW_MS);
+
+// Texts one of the user's caregiver contacts. Numbers are looked up here, and
+// must have been verified, so the client never texts arbitrary phone numbers.
+export default withErrors(async function handler(req, res) {
+  if (req.method !== 'POST') throw methodNotAllowed(['POST']);
+
+  const { sid: requestedSid, contactId, phrase, level = 'emergency' } = req.body ?? {};
+  const sid = await requireSid(req, requestedSid);
+  requireContactId(contactId, 'contactId');
+  requireText(phrase, 'phrase', 320);
+  if (!ALERT_LEVELS.includes(level)) {
+    throw badRequest(`level must be one of ${ALERT_LEVELS.join(', ')}`, [{ path: 'level', message: 'is not an alert level' }]);
+  }
+
+  const { data, error } = await sb
+    .from('caregiver_contacts')
+    .select('*')
+    .eq('sid', sid)
+    .eq('id', contactId)
+    .maybeSingle();
+  checkDb(error);
+  if (!data) throw new ApiError(404, 'not_found', 'Contact not found');
+
+  const contact = fromRow(data);
+  if (!contact.verified) throw new ApiError(403, 'forbidden', 'Contact has not verified their number');
+  const skipped = alertSkipReason(contact, level, new Date());
+  if (skipped) {
+    return res.status(200).json({ success: true, sent: false, skipped });
+  }
+
+  smsLimiter.consume(sid);
+  addressLimiter.consume(clientAddress(req));
+  globalLimiter.consume('all');
+  const provider = getSmsProvider();
+  try {
+    await provider.send(contact.phone, phrase);
+  } catch (sendError) {
+    console.error('Failed to send SMS:', sendError);
+    throw new ApiError(502, 'provider_error', 'Failed to send SMS');
+  }
+  res.status(200).json({ success: true, sent: true, provider: provider.name });
+});
@@ -1,26 +0,0 @@
-import twilio from 'twilio';
-
-const client = twilio(
-  process.env.TWILIO_ACCOUNT_SID,
-  process.env.TWILIO_AUTH_TOKEN
-);
-
-export default async function handler(req, res) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  const { to, phrase } = req.body;
-
-  try {
-    await client.messages.create({
-      body: phrase,
-      from: process.env.TWILIO_PHONE_NUMBER!,
-      to,
-    });
-
-    res.status(200).json({ success: true });
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to send SMS' });
-  }
-}
@@ -0,0 +1,16 @@
+-- Caregiver contacts who receive alerts for a user (sid)
+CREATE TABLE caregiver_contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sid TEXT NOT NULL,
+  name TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  email TEXT,
+  relationship TEXT,
+  -- Any of 'emergency', 'urgent', 'info'
+  alert_levels TEXT[] NOT NULL DEFAULT ARRAY['emergency'],
+  -- { "start": "22:00", "end": "07:00", "timezone": "Europe/London" }; emergencies ignore it
+  quiet_hours JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_caregiver_contacts_sid ON caregiver_contacts(sid);
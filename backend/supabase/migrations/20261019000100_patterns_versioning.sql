@@ -0,0 +1,6 @@
+-- Version and last-modified time of each saved mapping, so offline edits from
+-- several devices can be reconciled. Existing rows start at version 1: a
+-- device that has never synced (base version 0) cannot overwrite them unseen.
+ALTER TABLE patterns
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
@@ -0,0 +1,17 @@
+-- Every saved version of a user's mapping, so edits can be reviewed and undone
+CREATE TABLE pattern_revisions (
+  sid TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  mapping JSONB NOT NULL,
+  -- Name the editor gave, if any, and whether they used a device token or an account
+  author TEXT,
+  author_kind TEXT,
+  -- Set when this revision brought back an earlier one
+  restored_from INTEGER,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (sid, version)
+);
+
+-- Start each history from the mapping saved today
+INSERT INTO pattern_revisions (sid, version, mapping, updated_at)
+SELECT sid, version, mapping, updated_at FROM patterns WHERE mapping IS NOT NULL;
@@ -0,0 +1,7 @@
+-- Caregiver numbers receive alerts only after confirming a texted code
+ALTER TABLE caregiver_contacts
+  ADD COLUMN verified_at TIMESTAMPTZ,
+  -- sha256 of "<phone>:<code>" for the code last sent
+  ADD COLUMN verification_code_hash TEXT,
+  ADD COLUMN verification_expires_at TIMESTAMPTZ,
+  ADD COLUMN verification_attempts INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,11 @@
+-- Phrase packs a user (sid) has imported: a mapping plus the language it is
+-- spoken in, one row per pack id. The primary key also serves lookups by sid.
+CREATE TABLE IF NOT EXISTS phrase_packs (
+  sid TEXT NOT NULL,
+  pack_id TEXT NOT NULL,
+  pack JSONB NOT NULL,
+  PRIMARY KEY (sid, pack_id)
+);
+
+-- Only the backend, with the service role key, reads and writes packs
+ALTER TABLE phrase_packs ENABLE ROW LEVEL SECURITY;
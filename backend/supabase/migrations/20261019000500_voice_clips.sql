@@ -0,0 +1,11 @@
+-- Phrases a user (sid) recorded in their own voice, as audio data URLs.
+-- The primary key also serves lookups by sid.
+CREATE TABLE IF NOT EXISTS voice_clips (
+  sid TEXT NOT NULL,
+  phrase TEXT NOT NULL,
+  audio TEXT NOT NULL,
+  PRIMARY KEY (sid, phrase)
+);
+
+-- Only the backend, with the service role key, reads and writes clips
+ALTER TABLE voice_clips ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,4 @@
+-- Caregiver phone numbers and verification state are only reached through the
+-- backend's service role. With no policies, the public anon key can neither
+-- read contacts nor mark a number verified without its code.
+ALTER TABLE caregiver_contacts ENABLE ROW LEVEL SECURITY;
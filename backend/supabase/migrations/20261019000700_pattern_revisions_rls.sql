@@ -0,0 +1,4 @@
+-- Mapping history is only reached through the backend's service role; restores
+-- trust these rows, so with no policies the public anon key cannot read or
+-- rewrite them.
+ALTER TABLE pattern_revisions ENABLE ROW LEVEL SECURITY;
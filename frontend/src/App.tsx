@@ -7,6 +7,7 @@ import Index from "./pages/Index";
 import Calibration from "./pages/Calibration";
 import Session from "./pages/Session";
 import TestSession from "./pages/TestSession";
+import Keyboard from "./pages/Keyboard";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,6 +23,7 @@ const App = () => (
           <Route path="/calibration" element={<Calibration />} />
           <Route path="/session" element={<Session />} />
           <Route path="/test" element={<TestSession />} />
+          <Route path="/keyboard" element={<Keyboard />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -1,17 +1,224 @@
 // src/api/apiClient.ts
-export async function fetchMapping(sid: string) {
-  const res = await fetch(`/api/patterns/${sid}`);
-  if (!res.ok) throw new Error(`Error fetching mapping: ${res.statusText}`);
-  const data = await res.json();
-  return data.mapping;
+import type { GestureMapping } from '@/engine/phraseBoard';
+import type { PhrasePack } from '@/engine/phrasePack';
+import type { VoiceClipBundle } from '@/utils/voiceBank';
+import type { AlertLevel, CaregiverContact } from '@/engine/caregiverContact';
+import { getDeviceSession } from '@/utils/deviceSession';
+
+// Every sid route needs the device token (or a signed-in user's access token)
+async function authHeaders(): Promise<Record<string, string>> {
+  const { token } = await getDeviceSession();
+  return { Authorization: `Bearer ${token}` };
+}
+
+// A request the backend answered with an error status
+export class ApiResponseError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Errors come back as { error: { code, message, details } }; surface the message
+async function checkResponse(res: Response, action: string) {
+  if (res.ok) return;
+  const body = await res.json().catch(() => null);
+  throw new ApiResponseError(body?.error?.message ?? `Error ${action}: ${res.statusText}`, res.status);
+}
+
+// Worth trying again: the request never got an answer, or the backend failed.
+// A 4xx means the request itself was refused, so repeating it gets the same.
+export function isTransientError(error: unknown): boolean {
+  return !(error instanceof ApiResponseError) || error.status >= 500;
+}
+
+// A saved mapping; version 0 means the server has none and sent its default
+export interface VersionedMapping {
+  mapping: GestureMapping;
+  version: number;
+  updatedAt: string | null;
 }
 
-export async function saveMapping(sid: string, mapping: Record<string, string>) {
+// The mapping was saved from elsewhere since the version the save was based on
+export class MappingConflictError extends Error {}
+
+export async function fetchMapping(sid: string): Promise<VersionedMapping> {
+  const res = await fetch(`/api/patterns/${sid}`, { headers: await authHeaders() });
+  await checkResponse(res, 'fetching mapping');
+  const { mapping, version, updatedAt } = await res.json();
+  return { mapping, version: version ?? 0, updatedAt: updatedAt ?? null };
+}
+
+// With a base version the save is rejected if the server has moved past it;
+// without one it overwrites whatever is stored. `author` names the editor in the history.
+export async function saveMapping(
+  sid: string,
+  mapping: GestureMapping,
+  options?: { baseVersion?: number; updatedAt?: string; author?: string }
+): Promise<{ version: number; updatedAt: string }> {
   const res = await fetch(`/api/patterns/${sid}`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ mapping }),
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ mapping, ...options }),
+  });
+  if (res.status === 409) throw new MappingConflictError('Mapping was changed on another device');
+  await checkResponse(res, 'saving mapping');
+  return await res.json();
+}
+
+// One saved version of the mapping, without its snapshot
+export interface MappingRevision {
+  version: number;
+  author: string | null;
+  authorKind: 'user' | 'device' | null;
+  // Set when the revision brought back an earlier one
+  restoredFrom: number | null;
+  updatedAt: string;
+}
+
+// A phrase or sub-board label that differs between two revisions
+export interface MappingChange {
+  // Gesture keys from the home board down to the entry
+  path: string[];
+  kind: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+}
+
+export async function fetchMappingRevisions(sid: string, limit = 200): Promise<MappingRevision[]> {
+  const res = await fetch(`/api/patterns/${sid}/revisions?limit=${limit}`, { headers: await authHeaders() });
+  await checkResponse(res, 'fetching mapping history');
+  const data = await res.json();
+  return data.revisions;
+}
+
+// Changes from one revision to another; `from` 0 is the empty mapping, no `to` the current one
+export async function fetchMappingDiff(sid: string, from: number, to?: number): Promise<MappingChange[]> {
+  const query = to === undefined ? `from=${from}` : `from=${from}&to=${to}`;
+  const res = await fetch(`/api/patterns/${sid}/diff?${query}`, { headers: await authHeaders() });
+  await checkResponse(res, 'comparing mapping versions');
+  const data = await res.json();
+  return data.changes;
+}
+
+// Saves the revision's snapshot as a new version and returns it
+export async function restoreMappingRevision(
+  sid: string,
+  version: number,
+  options?: { baseVersion?: number; author?: string }
+): Promise<VersionedMapping> {
+  const res = await fetch(`/api/patterns/${sid}/restore`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ version, ...options }),
+  });
+  await checkResponse(res, 'restoring mapping');
+  const { mapping, version: restoredVersion, updatedAt } = await res.json();
+  return { mapping, version: restoredVersion, updatedAt };
+}
+
+export async function fetchPhrasePacks(sid: string): Promise<PhrasePack[]> {
+  const res = await fetch(`/api/packs/${sid}`, { headers: await authHeaders() });
+  await checkResponse(res, 'fetching phrase packs');
+  const data = await res.json();
+  return data.packs;
+}
+
+export async function savePhrasePack(sid: string, pack: PhrasePack) {
+  const res = await fetch(`/api/packs/${sid}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ pack }),
+  });
+  await checkResponse(res, 'saving phrase pack');
+  return await res.json();
+}
+
+export async function deletePhrasePack(sid: string, id: string) {
+  const res = await fetch(`/api/packs/${sid}?id=${encodeURIComponent(id)}`, { method: 'DELETE', headers: await authHeaders() });
+  await checkResponse(res, 'deleting phrase pack');
+  return await res.json();
+}
+
+export async function fetchVoiceClips(sid: string): Promise<VoiceClipBundle> {
+  const res = await fetch(`/api/clips/${sid}`, { headers: await authHeaders() });
+  await checkResponse(res, 'fetching voice clips');
+  const data = await res.json();
+  return data.clips;
+}
+
+export async function saveVoiceClips(sid: string, clips: VoiceClipBundle) {
+  const res = await fetch(`/api/clips/${sid}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ clips }),
+  });
+  await checkResponse(res, 'saving voice clips');
+  return await res.json();
+}
+
+export async function deleteVoiceClip(sid: string, phrase: string) {
+  const res = await fetch(`/api/clips/${sid}?phrase=${encodeURIComponent(phrase)}`, { method: 'DELETE', headers: await authHeaders() });
+  await checkResponse(res, 'deleting voice clip');
+  return await res.json();
+}
+
+export async function fetchContacts(sid: string): Promise<CaregiverContact[]> {
+  const res = await fetch(`/api/contacts/${sid}`, { headers: await authHeaders() });
+  await checkResponse(res, 'fetching contacts');
+  const data = await res.json();
+  return data.contacts;
+}
+
+// Creates the contact when it has no id yet. A new or changed number is texted
+// a verification code; `verificationSent` is false if that failed.
+export async function saveContact(
+  sid: string,
+  contact: CaregiverContact
+): Promise<{ contact: CaregiverContact; verificationSent?: boolean }> {
+  const res = await fetch(`/api/contacts/${sid}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ contact }),
+  });
+  await checkResponse(res, 'saving contact');
+  return await res.json();
+}
+
+// Confirms the contact's number with the code they received; resolves to the verified contact
+export async function verifyContact(sid: string, id: string, code: string): Promise<CaregiverContact> {
+  const res = await fetch(`/api/contacts/${sid}/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ id, code }),
+  });
+  await checkResponse(res, 'verifying contact');
+  const data = await res.json();
+  return data.contact;
+}
+
+export async function resendContactCode(sid: string, id: string) {
+  const res = await fetch(`/api/contacts/${sid}/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ id }),
+  });
+  await checkResponse(res, 'sending verification code');
+  return await res.json();
+}
+
+export async function deleteContact(sid: string, id: string) {
+  const res = await fetch(`/api/contacts/${sid}?id=${encodeURIComponent(id)}`, { method: 'DELETE', headers: await authHeaders() });
+  await checkResponse(res, 'deleting contact');
+  return await res.json();
+}
+
+// Texts a stored contact; the backend looks up the number
+export async function sendSMS(sid: string, contactId: string, phrase: string, level: AlertLevel = 'emergency') {
+  const res = await fetch('/api/sendSMS', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ sid, contactId, phrase, level }),
   });
-  if (!res.ok) throw new Error(`Error saving mapping: ${res.statusText}`);
+  await checkResponse(res, 'sending SMS');
   return await res.json();
 }
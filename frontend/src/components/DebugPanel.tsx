@@ -1,14 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import type { AdaptiveThresholdState } from '@/engine/adaptiveThreshold';
+import { speakPhrase } from '@/utils/speechSynthesis';
 
 interface DebugPanelProps {
   isActive: boolean;
   videoRef: React.RefObject<HTMLVideoElement>;
   onManualTrigger: (pattern: string) => void;
+  thresholdState?: AdaptiveThresholdState | null;
 }
 
-export const DebugPanel: React.FC<DebugPanelProps> = ({ isActive, videoRef, onManualTrigger }) => {
+export const DebugPanel: React.FC<DebugPanelProps> = ({ isActive, videoRef, onManualTrigger, thresholdState }) => {
   const [logs, setLogs] = useState<string[]>([]);
   
   useEffect(() => {
@@ -35,12 +38,7 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({ isActive, videoRef, onMa
   
   const testSpeech = (phrase: string) => {
     try {
-      if ('speechSynthesis' in window) {
-        speechSynthesis.cancel();
-        const utterance = new SpeechSynthesisUtterance(phrase);
-        utterance.rate = 1.0;
-        utterance.volume = 1.0;
-        speechSynthesis.speak(utterance);
+      if (speakPhrase(phrase)) {
         console.log('🎤 Test speech triggered:', phrase);
       }
     } catch (error) {
@@ -70,6 +68,23 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({ isActive, videoRef, onMa
           <div>Status: {isActive ? '🟢 Active' : '🔴 Inactive'}</div>
           <div>Video Ready: {videoRef.current?.readyState === 4 ? '✅' : '❌'}</div>
           <div>Video Size: {videoRef.current?.videoWidth}x{videoRef.current?.videoHeight}</div>
+          <div>
+            Open EAR Baseline: {thresholdState ? thresholdState.baseline.toFixed(3) : '—'}
+            {' | '}
+            Blink Threshold: {thresholdState ? thresholdState.threshold.toFixed(3) : '—'}
+          </div>
+          {thresholdState && (
+            <div className="relative h-2 bg-gray-200 rounded">
+              <div
+                className="absolute h-2 bg-green-400 rounded"
+                style={{ width: `${Math.min(100, (thresholdState.baseline / 0.5) * 100)}%` }}
+              />
+              <div
+                className="absolute h-2 w-0.5 bg-red-600"
+                style={{ left: `${Math.min(100, (thresholdState.threshold / 0.5) * 100)}%` }}
+              />
+            </div>
+          )}
         </div>
         
         <div className="max-h-32 overflow-y-auto text-xs font-mono bg-gray-100 p-2 rounded">
@@ -1,13 +1,15 @@
 // src/components/PhraseMappingUI.tsx
 import React, { useState, useEffect } from 'react';
-import { fetchMapping, saveMapping } from '../api/apiClient';
+import { fetchMapping, fetchVoiceClips, saveMapping, saveVoiceClips } from '../api/apiClient';
+import { isPhraseBoard, listPhrases, type GestureMapping } from '../engine/phraseBoard';
+import { exportClips, importClips } from '../utils/voiceBank';
 
 interface PhraseMappingUIProps {
   sid: string; // user/session id
 }
 
 const PhraseMappingUI: React.FC<PhraseMappingUIProps> = ({ sid }) => {
-  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [mapping, setMapping] = useState<GestureMapping>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -17,8 +19,14 @@ const PhraseMappingUI: React.FC<PhraseMappingUIProps> = ({ sid }) => {
     async function load() {
       try {
         setLoading(true);
-        const map = await fetchMapping(sid);
+        const { mapping: map } = await fetchMapping(sid);
         setMapping(map);
+        // Recorded clips are optional; the mapping still works without them
+        try {
+          await importClips(await fetchVoiceClips(sid));
+        } catch (clipError) {
+          console.warn('Voice clips not synced:', clipError);
+        }
       } catch (err: any) {
         setError(err.message);
       } finally {
@@ -34,6 +42,7 @@ const PhraseMappingUI: React.FC<PhraseMappingUIProps> = ({ sid }) => {
       setError(null);
       setSuccess(false);
       await saveMapping(sid, mapping);
+      await saveVoiceClips(sid, await exportClips(listPhrases(mapping)));
       setSuccess(true);
     } catch (err: any) {
       setError(err.message);
@@ -67,12 +76,17 @@ const PhraseMappingUI: React.FC<PhraseMappingUIProps> = ({ sid }) => {
             <tr key={gesture}>
               <td><strong>{gesture}</strong></td>
               <td>
-                <input
-                  type="text"
-                  value={phrase}
-                  onChange={(e) => handleChange(gesture, e.target.value)}
-                  style={{ width: '100%' }}
-                />
+                {/* Sub-boards are edited in the session's mapping editor */}
+                {isPhraseBoard(phrase) ? (
+                  <em>Board: {phrase.label}</em>
+                ) : (
+                  <input
+                    type="text"
+                    value={phrase}
+                    onChange={(e) => handleChange(gesture, e.target.value)}
+                    style={{ width: '100%' }}
+                  />
+                )}
               </td>
             </tr>
           ))}
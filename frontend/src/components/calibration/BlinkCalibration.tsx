@@ -0,0 +1,188 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useDetectionEngine } from "@/hooks/useDetectionEngine";
+import {
+  deriveEarCalibration,
+  extractBlinkMinima,
+  mean,
+  standardDeviation,
+  type EarCalibration
+} from "@/engine/earCalibration";
+import { Eye, EyeOff, RotateCcw, ArrowRight } from "lucide-react";
+
+interface BlinkCalibrationProps {
+  // Called with the learned thresholds, or null when the user skips this step
+  onComplete: (calibration: EarCalibration | null) => void;
+}
+
+type BlinkCalibrationStep = "idle" | "open" | "blinks" | "done" | "failed";
+
+const OPEN_PHASE_MS = 3000;
+const BLINK_PHASE_MS = 10000;
+const REQUIRED_BLINKS = 5;
+
+export const BlinkCalibration = ({ onComplete }: BlinkCalibrationProps) => {
+  const [step, setStep] = useState<BlinkCalibrationStep>("idle");
+  const [blinkCount, setBlinkCount] = useState(0);
+  const [result, setResult] = useState<EarCalibration | null>(null);
+
+  const stepRef = useRef<BlinkCalibrationStep>("idle");
+  const openSamples = useRef<number[]>([]);
+  const blinkSamples = useRef<number[]>([]);
+
+  const { videoRef, isInitialized, startCamera } = useDetectionEngine({
+    isActive: step === "open" || step === "blinks",
+    onFrame: ({ ears, ear }) => {
+      if (!ears) return;
+      if (stepRef.current === "open") openSamples.current.push(ear);
+      if (stepRef.current === "blinks") blinkSamples.current.push(ear);
+    }
+  });
+
+  const goTo = (next: BlinkCalibrationStep) => {
+    stepRef.current = next;
+    setStep(next);
+  };
+
+  useEffect(() => {
+    if (isInitialized) {
+      startCamera();
+    }
+  }, [isInitialized, startCamera]);
+
+  // Record the resting-open distribution, then move on to deliberate blinks
+  useEffect(() => {
+    if (step !== "open") return;
+    const timer = setTimeout(() => {
+      blinkSamples.current = [];
+      setBlinkCount(0);
+      goTo(openSamples.current.length > 0 ? "blinks" : "failed");
+    }, OPEN_PHASE_MS);
+    return () => clearTimeout(timer);
+  }, [step]);
+
+  useEffect(() => {
+    if (step !== "blinks") return;
+
+    const openMean = mean(openSamples.current);
+    const openStd = standardDeviation(openSamples.current);
+    const startedAt = Date.now();
+
+    const interval = setInterval(() => {
+      const minima = extractBlinkMinima(blinkSamples.current, openMean, openStd);
+      setBlinkCount(minima.length);
+
+      if (minima.length >= REQUIRED_BLINKS || Date.now() - startedAt > BLINK_PHASE_MS) {
+        clearInterval(interval);
+        const calibration = deriveEarCalibration(openSamples.current, minima);
+        console.log('👁️ EAR calibration result:', calibration);
+        setResult(calibration);
+        goTo(calibration ? "done" : "failed");
+      }
+    }, 250);
+
+    return () => clearInterval(interval);
+  }, [step]);
+
+  const begin = () => {
+    openSamples.current = [];
+    blinkSamples.current = [];
+    setResult(null);
+    goTo("open");
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-6 text-center">
+      <video
+        ref={videoRef}
+        autoPlay
+        muted
+        playsInline
+        width={320}
+        height={240}
+        className="rounded-lg bg-black"
+        style={{ transform: 'scaleX(-1)' }}
+      />
+
+      {step === "idle" && (
+        <>
+          <p className="text-muted-foreground max-w-md">
+            We'll learn how your eyes look when open and when you blink, so detection
+            fits you instead of a fixed threshold.
+          </p>
+          <div className="flex gap-3">
+            <Button onClick={begin} disabled={!isInitialized} className="gap-2">
+              <Eye className="w-4 h-4" />
+              {isInitialized ? "Start Blink Calibration" : "Loading model..."}
+            </Button>
+            <Button variant="outline" onClick={() => onComplete(null)}>
+              Skip
+            </Button>
+          </div>
+        </>
+      )}
+
+      {step === "open" && (
+        <div className="space-y-2">
+          <div className="text-lg font-medium">Keep your eyes open and relaxed</div>
+          <p className="text-sm text-muted-foreground">Look at the screen normally for a few seconds</p>
+        </div>
+      )}
+
+      {step === "blinks" && (
+        <div className="space-y-3 w-full max-w-md">
+          <div className="flex items-center justify-center gap-2 text-lg font-medium">
+            <EyeOff className="w-5 h-5 text-primary" />
+            Blink firmly {REQUIRED_BLINKS} times
+          </div>
+          <Progress value={(blinkCount / REQUIRED_BLINKS) * 100} />
+          <p className="text-sm text-muted-foreground">
+            {blinkCount} of {REQUIRED_BLINKS} blinks detected
+          </p>
+        </div>
+      )}
+
+      {step === "done" && result && (
+        <div className="space-y-4">
+          <div className="text-lg font-medium">Blink calibration complete</div>
+          <div className="text-sm text-muted-foreground space-y-1">
+            <div>Open eye EAR: {result.openMean.toFixed(3)}</div>
+            <div>Closed eye EAR: {result.closedMean.toFixed(3)}</div>
+            <div>
+              Your threshold: {result.threshold.toFixed(3)} (±{result.hysteresis.toFixed(3)})
+            </div>
+          </div>
+          <div className="flex justify-center gap-3">
+            <Button variant="outline" onClick={begin} className="gap-2">
+              <RotateCcw className="w-4 h-4" />
+              Retry
+            </Button>
+            <Button onClick={() => onComplete(result)} className="gap-2">
+              Continue
+              <ArrowRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === "failed" && (
+        <div className="space-y-4">
+          <div className="text-lg font-medium">We couldn't tell your blinks apart</div>
+          <p className="text-sm text-muted-foreground max-w-md">
+            Make sure your face is well lit and fully visible, then blink firmly.
+          </p>
+          <div className="flex justify-center gap-3">
+            <Button onClick={begin} className="gap-2">
+              <RotateCcw className="w-4 h-4" />
+              Try Again
+            </Button>
+            <Button variant="outline" onClick={() => onComplete(null)}>
+              Use Default Threshold
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { cn } from "@/lib/utils";
+import { predictGaze, recordGazeTarget } from "@/utils/gazeUtils";
+import type { GazeCalibrationPoint, ScreenPoint } from "@/engine/gazeCalibration";
 
 interface CalibrationStep {
   id: number;
@@ -10,58 +12,94 @@ interface CalibrationStep {
 interface CalibrationDotsProps {
   currentStep: number;
   calibrationSteps: CalibrationStep[];
-  onCalibrationPoint: (pointData: any) => void;
+  onCalibrationPoint: (pointData: GazeCalibrationPoint) => void;
   isCalibrating: boolean;
 }
 
+// Per-dot timing (milliseconds): the countdown trains WebGazer once the eyes
+// have settled on the dot, then predictions are sampled to measure accuracy.
+const COUNTDOWN_SECONDS = 3;
+const SETTLE_MS = 1000;
+const SAMPLE_MS = 1000;
+const TICK_MS = 100;
+
 export const CalibrationDots = ({
   currentStep,
   calibrationSteps,
   onCalibrationPoint,
   isCalibrating
 }: CalibrationDotsProps) => {
-  const [countdown, setCountdown] = useState(3);
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
   const [isActive, setIsActive] = useState(false);
+  const [isSampling, setIsSampling] = useState(false);
+  const dotRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const onCalibrationPointRef = useRef(onCalibrationPoint);
+  onCalibrationPointRef.current = onCalibrationPoint;
 
   useEffect(() => {
-    if (currentStep >= 0 && currentStep < calibrationSteps.length) {
-      setIsActive(true);
-      setCountdown(3);
-      
-      const interval = setInterval(() => {
-        setCountdown(prev => {
-          if (prev <= 1) {
-            clearInterval(interval);
-            // Simulate calibration point capture
-            setTimeout(() => {
-              onCalibrationPoint({
-                step: currentStep,
-                position: calibrationSteps[currentStep].position,
-                timestamp: Date.now()
-              });
-              setIsActive(false);
-            }, 100);
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-
-      return () => clearInterval(interval);
-    }
-  }, [currentStep, calibrationSteps, onCalibrationPoint]);
-
-  const currentPosition = calibrationSteps[currentStep]?.position;
+    if (!isCalibrating || currentStep < 0 || currentStep >= calibrationSteps.length) return;
+
+    const dot = dotRefs.current[currentStep];
+    if (!dot) return;
+
+    // WebGazer works in viewport coordinates, so use the dot's on-screen centre
+    const rect = dot.getBoundingClientRect();
+    const target: ScreenPoint = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+    const samples: ScreenPoint[] = [];
+    const trainUntil = COUNTDOWN_SECONDS * 1000;
+    const startedAt = Date.now();
+    let finished = false;
+
+    setIsActive(true);
+    setIsSampling(false);
+    setCountdown(COUNTDOWN_SECONDS);
+
+    const interval = setInterval(async () => {
+      const elapsed = Date.now() - startedAt;
+      setCountdown(Math.max(0, COUNTDOWN_SECONDS - Math.floor(elapsed / 1000)));
+
+      if (elapsed < SETTLE_MS) return;
+
+      if (elapsed < trainUntil) {
+        recordGazeTarget(target.x, target.y);
+        return;
+      }
+
+      if (elapsed < trainUntil + SAMPLE_MS) {
+        setIsSampling(true);
+        const prediction = await predictGaze();
+        if (prediction && !finished) samples.push(prediction);
+        return;
+      }
+
+      if (finished) return;
+      finished = true;
+      clearInterval(interval);
+      setIsActive(false);
+      setIsSampling(false);
+      onCalibrationPointRef.current({
+        name: calibrationSteps[currentStep].name,
+        target,
+        samples
+      });
+    }, TICK_MS);
+
+    return () => {
+      finished = true;
+      clearInterval(interval);
+    };
+  }, [currentStep, calibrationSteps, isCalibrating]);
 
   return (
     <div className="relative w-full h-full">
       {calibrationSteps.map((step, index) => {
         const isCurrentStep = index === currentStep;
         const isCompleted = index < currentStep;
-        
+
         return (
           <div
             key={step.id}
+            ref={el => { dotRefs.current[index] = el; }}
             className={cn(
               "absolute w-8 h-8 rounded-full border-4 transition-all duration-500 transform -translate-x-1/2 -translate-y-1/2",
               {
@@ -84,7 +122,7 @@ export const CalibrationDots = ({
                 </span>
               </div>
             )}
-            
+
             {isCompleted && (
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="w-3 h-3 bg-white rounded-full" />
@@ -105,8 +143,13 @@ export const CalibrationDots = ({
               Hold your gaze for {countdown} seconds
             </div>
           )}
+          {isSampling && (
+            <div className="text-sm text-muted-foreground">
+              Keep looking while we check accuracy...
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
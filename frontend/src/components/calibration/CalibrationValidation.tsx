@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef } from "react";
+import { cn } from "@/lib/utils";
+import { Progress } from "@/components/ui/progress";
+import { useDetectionEngine } from "@/hooks/useDetectionEngine";
+import { predictGaze } from "@/utils/gazeUtils";
+import { measureAccuracy, type ScreenPoint } from "@/engine/gazeCalibration";
+import { scoreCalibration, type CalibrationQuality } from "@/engine/calibrationQuality";
+
+interface CalibrationValidationProps {
+  onComplete: (quality: CalibrationQuality) => void;
+}
+
+type ValidationPhase = "loading" | "look" | "blink";
+
+const TARGET_COUNT = 4;
+const SETTLE_MS = 1500;
+const SAMPLE_MS = 1000;
+const BLINK_WINDOW_MS = 2000;
+const SAMPLE_INTERVAL_MS = 100;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Random positions (percent of the area) away from the edges
+function randomTargets(count: number): ScreenPoint[] {
+  return Array.from({ length: count }, () => ({
+    x: 15 + Math.random() * 70,
+    y: 15 + Math.random() * 70
+  }));
+}
+
+export const CalibrationValidation = ({ onComplete }: CalibrationValidationProps) => {
+  const [targets] = useState(() => randomTargets(TARGET_COUNT));
+  const [targetIndex, setTargetIndex] = useState(0);
+  const [phase, setPhase] = useState<ValidationPhase>("loading");
+  const [isCameraReady, setIsCameraReady] = useState(false);
+  const dotRef = useRef<HTMLDivElement>(null);
+  const blinkWindowOpen = useRef(false);
+  const blinkSeen = useRef(false);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const { videoRef, isInitialized, startCamera } = useDetectionEngine({
+    isActive: isCameraReady,
+    onBlink: (blink) => {
+      if (blinkWindowOpen.current && blink.eye === "both") {
+        blinkSeen.current = true;
+      }
+    }
+  });
+
+  useEffect(() => {
+    if (!isInitialized) return;
+    startCamera().then(setIsCameraReady);
+  }, [isInitialized, startCamera]);
+
+  useEffect(() => {
+    if (!isCameraReady) return;
+    let cancelled = false;
+
+    const run = async () => {
+      const accuracies: number[] = [];
+      const errors: number[] = [];
+      let blinkHits = 0;
+
+      for (let i = 0; i < targets.length; i++) {
+        setTargetIndex(i);
+        setPhase("look");
+        await wait(SETTLE_MS);
+        if (cancelled || !dotRef.current) return;
+
+        const rect = dotRef.current.getBoundingClientRect();
+        const target = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+        const samples: ScreenPoint[] = [];
+        const sampleUntil = Date.now() + SAMPLE_MS;
+        while (Date.now() < sampleUntil) {
+          const prediction = await predictGaze();
+          if (prediction) samples.push(prediction);
+          await wait(SAMPLE_INTERVAL_MS);
+        }
+        if (cancelled) return;
+
+        const point = measureAccuracy(`Target ${i + 1}`, target, samples, {
+          x: window.innerWidth,
+          y: window.innerHeight
+        });
+        accuracies.push(point.accuracy);
+        errors.push(point.meanError);
+
+        setPhase("blink");
+        blinkSeen.current = false;
+        blinkWindowOpen.current = true;
+        await wait(BLINK_WINDOW_MS);
+        blinkWindowOpen.current = false;
+        if (cancelled) return;
+        if (blinkSeen.current) blinkHits++;
+      }
+
+      const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+      const quality = scoreCalibration(average(accuracies), average(errors), blinkHits / targets.length);
+      console.log('✅ Calibration validation:', quality);
+      onCompleteRef.current(quality);
+    };
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [isCameraReady, targets]);
+
+  const target = targets[targetIndex];
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center space-y-2">
+        <div className="text-lg font-medium">
+          {phase === "loading" && "Preparing validation..."}
+          {phase === "look" && `Look at the dot (${targetIndex + 1} of ${targets.length})`}
+          {phase === "blink" && "Now blink once"}
+        </div>
+        <Progress value={(targetIndex / targets.length) * 100} className="w-full max-w-md mx-auto" />
+      </div>
+
+      <div className="relative w-full h-96 bg-card rounded-lg border shadow-soft overflow-hidden">
+        {phase !== "loading" && (
+          <div
+            ref={dotRef}
+            className={cn(
+              "absolute w-8 h-8 rounded-full border-4 transform -translate-x-1/2 -translate-y-1/2 transition-colors",
+              phase === "blink"
+                ? "bg-amber-500 border-amber-300 animate-gentle-pulse"
+                : "bg-primary border-primary-glow shadow-warm"
+            )}
+            style={{ left: `${target.x}%`, top: `${target.y}%` }}
+          />
+        )}
+      </div>
+
+      {/* Hidden feed for blink detection during validation */}
+      <video ref={videoRef} autoPlay muted playsInline className="hidden" />
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import { cn } from "@/lib/utils";
+import type { ScanPosition } from "@/engine/keyboardScanner";
+import type { KeyboardKey } from "@/components/keyboard/keyboardLayout";
+
+interface ScanningKeyboardProps {
+  rows: KeyboardKey[][];
+  position: ScanPosition | null;
+  onKeyPress: (key: KeyboardKey) => void;
+}
+
+export const ScanningKeyboard = ({ rows, position, onKeyPress }: ScanningKeyboardProps) => {
+  return (
+    <div className="space-y-2">
+      {rows.map((row, rowIndex) => {
+        const isRowHighlighted = position?.mode === "rows" && position.row === rowIndex;
+
+        return (
+          <div
+            key={rowIndex}
+            className={cn(
+              "flex gap-2 rounded-lg p-1 transition-colors",
+              { "bg-primary/15 ring-2 ring-primary": isRowHighlighted }
+            )}
+          >
+            {row.map((key, keyIndex) => {
+              const isKeyHighlighted =
+                position?.mode === "keys" && position.row === rowIndex && position.key === keyIndex;
+
+              return (
+                <button
+                  key={`${keyIndex}-${key.label}`}
+                  type="button"
+                  onClick={() => onKeyPress(key)}
+                  className={cn(
+                    "flex-1 h-16 rounded-md border text-2xl font-semibold transition-all",
+                    {
+                      "bg-primary text-primary-foreground border-primary scale-105 shadow-warm": isKeyHighlighted,
+                      "bg-white/70 hover:bg-accent/50": !isKeyHighlighted,
+                      "text-base": !!key.action,
+                      "text-primary": key.action === "predict"
+                    }
+                  )}
+                >
+                  {key.label}
+                </button>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
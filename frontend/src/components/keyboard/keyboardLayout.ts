@@ -0,0 +1,41 @@
+import type { Prediction } from '@/engine/wordPredictor';
+
+export type KeyAction = 'space' | 'backspace' | 'speak' | 'clear' | 'predict';
+
+export interface KeyboardKey {
+  label: string;
+  // Text the key types (for 'predict', the whole new buffer), or the action it performs
+  value?: string;
+  action?: KeyAction;
+}
+
+const letterRow = (letters: string): KeyboardKey[] =>
+  letters.split('').map(letter => ({ label: letter, value: letter }));
+
+// Most frequent English letters first so common keys are reached sooner when scanning
+export const keyboardRows: KeyboardKey[][] = [
+  [
+    { label: 'Speak', action: 'speak' },
+    { label: 'Space', action: 'space' },
+    { label: '⌫', action: 'backspace' },
+    { label: 'Clear', action: 'clear' }
+  ],
+  letterRow('ETAOIN'),
+  letterRow('SHRDLU'),
+  letterRow('CMFWYP'),
+  letterRow('VBGKJQ'),
+  [...letterRow('XZ'), ...letterRow(".,?'")]
+];
+
+// Suggestions form the first scanned row; the slot count stays fixed so the
+// scanner's rows do not shift as predictions change
+export const PREDICTION_SLOTS = 3;
+
+export function predictionKeys(predictions: Prediction[]): KeyboardKey[] {
+  return Array.from({ length: PREDICTION_SLOTS }, (_, i) => {
+    const prediction = predictions[i];
+    return prediction
+      ? { label: prediction.label, value: prediction.text, action: 'predict' }
+      : { label: '', action: 'predict' };
+  });
+}
@@ -0,0 +1,54 @@
+import { Fragment } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator
+} from "@/components/ui/breadcrumb";
+import { CornerUpLeft } from "lucide-react";
+
+interface BoardBreadcrumbsProps {
+  // Labels of the open boards, starting with the home board
+  labels: string[];
+  // Called with the depth of the board to return to (0 is home)
+  onNavigate: (depth: number) => void;
+}
+
+export const BoardBreadcrumbs = ({ labels, onNavigate }: BoardBreadcrumbsProps) => {
+  const depth = labels.length - 1;
+
+  return (
+    <div className="flex items-center justify-between gap-3 min-h-9">
+      <Breadcrumb>
+        <BreadcrumbList>
+          {labels.map((label, index) => (
+            <Fragment key={index}>
+              {index > 0 && <BreadcrumbSeparator />}
+              <BreadcrumbItem>
+                {index === depth ? (
+                  <BreadcrumbPage className="font-medium">{label}</BreadcrumbPage>
+                ) : (
+                  <BreadcrumbLink asChild>
+                    <button type="button" onClick={() => onNavigate(index)}>
+                      {label}
+                    </button>
+                  </BreadcrumbLink>
+                )}
+              </BreadcrumbItem>
+            </Fragment>
+          ))}
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {depth > 0 && (
+        <Button variant="outline" size="sm" onClick={() => onNavigate(depth - 1)} className="gap-2">
+          <CornerUpLeft className="w-4 h-4" />
+          Back
+        </Button>
+      )}
+    </div>
+  );
+};
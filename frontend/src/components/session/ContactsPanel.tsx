@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Pencil, Plus, Trash2, Moon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { CaregiverContacts } from "@/hooks/useCaregiverContacts";
+import {
+  ALERT_LEVELS,
+  createContact,
+  defaultQuietHours,
+  type AlertLevel,
+  type CaregiverContact
+} from "@/engine/caregiverContact";
+
+interface ContactsPanelProps {
+  contacts: CaregiverContacts;
+}
+
+const alertLevelLabels: Record<AlertLevel, string> = {
+  emergency: "Emergency alerts",
+  urgent: "Urgent phrases",
+  info: "Routine updates"
+};
+
+// Caregivers who are texted when an alert is raised
+export const ContactsPanel = ({ contacts }: ContactsPanelProps) => {
+  // The contact being added or edited, if any
+  const [draft, setDraft] = useState<CaregiverContact | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Codes typed for unverified contacts, by contact id
+  const [codes, setCodes] = useState<Record<string, string>>({});
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const updateDraft = (changes: Partial<CaregiverContact>) => {
+    if (draft) setDraft({ ...draft, ...changes });
+  };
+
+  const toggleLevel = (level: AlertLevel, checked: boolean) => {
+    if (!draft) return;
+    updateDraft({
+      alertLevels: checked
+        ? [...draft.alertLevels, level]
+        : draft.alertLevels.filter(existing => existing !== level)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      setIsSaving(true);
+      const { contact, verificationSent } = await contacts.save(draft);
+      setDraft(null);
+      toast({
+        title: "Contact Saved",
+        description: contact.verified
+          ? `${contact.name} will receive the alerts you selected`
+          : verificationSent
+            ? `A code was texted to ${contact.phone}; enter it below to turn on alerts`
+            : "The verification code could not be sent; try Send New Code"
+      });
+    } catch (error) {
+      toast({
+        title: "Contact Not Saved",
+        description: error instanceof Error ? error.message : "Please check the details",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVerify = async (contact: CaregiverContact) => {
+    if (!contact.id) return;
+    try {
+      setVerifyingId(contact.id);
+      await contacts.verify(contact.id, codes[contact.id] ?? "");
+      setCodes(current => ({ ...current, [contact.id!]: "" }));
+      toast({
+        title: "Contact Verified",
+        description: `${contact.name} will now receive the alerts you selected`
+      });
+    } catch (error) {
+      toast({
+        title: "Not Verified",
+        description: error instanceof Error ? error.message : "Please check the code",
+        variant: "destructive"
+      });
+    } finally {
+      setVerifyingId(null);
+    }
+  };
+
+  const handleResend = async (contact: CaregiverContact) => {
+    if (!contact.id) return;
+    try {
+      await contacts.resendCode(contact.id);
+      toast({ title: "Code Sent", description: `A new code was texted to ${contact.phone}` });
+    } catch (error) {
+      toast({
+        title: "Code Not Sent",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemove = async (contact: CaregiverContact) => {
+    if (!contact.id) return;
+    try {
+      await contacts.remove(contact.id);
+    } catch (error) {
+      console.error("Failed to remove contact:", error);
+      toast({
+        title: "Contact Not Removed",
+        description: "Please try again",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="contact-name" className="text-sm">Name</Label>
+          <Input
+            id="contact-name"
+            value={draft.name}
+            maxLength={100}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="contact-phone" className="text-sm">Phone</Label>
+          <Input
+            id="contact-phone"
+            value={draft.phone}
+            onChange={(e) => updateDraft({ phone: e.target.value.replace(/[\s()-]/g, "") })}
+            placeholder="+14155552671"
+            className="text-sm font-mono"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="contact-email" className="text-sm">Email (optional)</Label>
+          <Input
+            id="contact-email"
+            type="email"
+            value={draft.email ?? ""}
+            onChange={(e) => updateDraft({ email: e.target.value || null })}
+            className="text-sm"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="contact-relationship" className="text-sm">Relationship (optional)</Label>
+          <Input
+            id="contact-relationship"
+            value={draft.relationship ?? ""}
+            maxLength={60}
+            onChange={(e) => updateDraft({ relationship: e.target.value || null })}
+            placeholder="e.g. Daughter, Nurse"
+            className="text-sm"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm">Receives</Label>
+          {ALERT_LEVELS.map(level => (
+            <div key={level} className="flex items-center gap-2">
+              <Checkbox
+                id={`level-${level}`}
+                checked={draft.alertLevels.includes(level)}
+                onCheckedChange={(checked) => toggleLevel(level, checked === true)}
+              />
+              <Label htmlFor={`level-${level}`} className="text-sm font-normal cursor-pointer">
+                {alertLevelLabels[level]}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="quiet-hours" className="space-y-1">
+              <div className="text-sm">Quiet hours</div>
+              <div className="text-xs text-muted-foreground font-normal">
+                Only emergency alerts are sent during these hours
+              </div>
+            </Label>
+            <Switch
+              id="quiet-hours"
+              checked={draft.quietHours !== null}
+              onCheckedChange={(checked) => updateDraft({ quietHours: checked ? defaultQuietHours() : null })}
+            />
+          </div>
+          {draft.quietHours && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={draft.quietHours.start}
+                onChange={(e) => draft.quietHours && updateDraft({ quietHours: { ...draft.quietHours, start: e.target.value } })}
+                className="text-sm"
+                aria-label="Quiet hours start"
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="time"
+                value={draft.quietHours.end}
+                onChange={(e) => draft.quietHours && updateDraft({ quietHours: { ...draft.quietHours, end: e.target.value } })}
+                className="text-sm"
+                aria-label="Quiet hours end"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={isSaving || !draft.name.trim() || !draft.phone}
+          >
+            {isSaving ? "Saving..." : "Save Contact"}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {contacts.error && (
+        <p className="text-xs text-destructive">Could not load contacts: {contacts.error}</p>
+      )}
+      {!contacts.isLoading && !contacts.error && contacts.contacts.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No caregivers yet. Add someone to text when you raise an emergency alert.
+        </p>
+      )}
+
+      {contacts.contacts.map(contact => (
+        <div key={contact.id} className="flex items-start justify-between gap-2 rounded-md border p-3">
+          <div className="space-y-1 min-w-0">
+            <div className="text-sm font-medium flex items-center gap-2">
+              {contact.name}
+              {contact.relationship && (
+                <span className="text-xs text-muted-foreground font-normal">{contact.relationship}</span>
+              )}
+              {contact.quietHours && (
+                <Moon className="w-3 h-3 text-muted-foreground" aria-label="Has quiet hours" />
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground font-mono">{contact.phone}</div>
+            <div className="flex flex-wrap gap-1">
+              {!contact.verified && (
+                <Badge variant="destructive" className="text-xs">Not verified</Badge>
+              )}
+              {contact.alertLevels.map(level => (
+                <Badge key={level} variant="outline" className="text-xs">{alertLevelLabels[level]}</Badge>
+              ))}
+            </div>
+            {!contact.verified && contact.id && (
+              <div className="space-y-2 pt-1">
+                <p className="text-xs text-muted-foreground">
+                  Enter the code texted to this number to turn on alerts
+                </p>
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={codes[contact.id] ?? ""}
+                    onChange={(e) => setCodes(current => ({ ...current, [contact.id!]: e.target.value.replace(/\D/g, "") }))}
+                    inputMode="numeric"
+                    maxLength={6}
+                    placeholder="123456"
+                    className="text-sm font-mono w-28"
+                    aria-label={`Verification code for ${contact.name}`}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => handleVerify(contact)}
+                    disabled={verifyingId === contact.id || (codes[contact.id] ?? "").length !== 6}
+                  >
+                    Verify
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleResend(contact)}>
+                    Send New Code
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="flex gap-1">
+            <Button variant="ghost" size="icon" onClick={() => setDraft(contact)} aria-label={`Edit ${contact.name}`}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => handleRemove(contact)} aria-label={`Remove ${contact.name}`}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={() => setDraft(createContact())} className="gap-2">
+        <Plus className="w-4 h-4" />
+        Add Contact
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Siren, CheckCircle2, XCircle } from "lucide-react";
+import type { EmergencyAlertState } from "@/hooks/useEmergencyAlert";
+
+interface EmergencyAlertBannerProps {
+  alert: EmergencyAlertState;
+  countdownS: number;
+  onCancel: () => void;
+  onSendNow: () => void;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+// Countdown while a false alarm can still be cancelled, then the delivery result
+export const EmergencyAlertBanner = ({
+  alert,
+  countdownS,
+  onCancel,
+  onSendNow,
+  onRetry,
+  onDismiss
+}: EmergencyAlertBannerProps) => {
+  if (alert.status === "idle") return null;
+
+  if (alert.status === "sent") {
+    return (
+      <Alert className="bg-green-50 border-green-200">
+        <CheckCircle2 className="h-4 w-4" />
+        <AlertTitle>Emergency alert sent</AlertTitle>
+        <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+          <span>Your caregivers have been texted.</span>
+          <Button size="sm" variant="outline" onClick={onDismiss}>
+            Dismiss
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (alert.status === "failed") {
+    return (
+      <Alert variant="destructive">
+        <XCircle className="h-4 w-4" />
+        <AlertTitle>Emergency alert not delivered</AlertTitle>
+        <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+          <span>
+            {alert.failedContacts.length > 0
+              ? `Could not reach ${alert.failedContacts.map(contact => contact.name).join(", ")}.`
+              : "No verified caregiver receives emergency alerts. Add or verify one under Settings → Contacts."}
+          </span>
+          <div className="flex gap-2">
+            {alert.failedContacts.length > 0 && (
+              <Button size="sm" variant="destructive" onClick={onRetry}>
+                Try Again
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={onDismiss}>
+              Dismiss
+            </Button>
+          </div>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const isSending = alert.status === "sending";
+  return (
+    <Alert variant="destructive" className="bg-red-50">
+      <Siren className="h-4 w-4" />
+      <AlertTitle>{isSending ? "Sending emergency alert..." : `Emergency alert in ${alert.secondsLeft}s`}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        {!isSending && (
+          <Progress value={countdownS > 0 ? (alert.secondsLeft / countdownS) * 100 : 0} className="h-2" />
+        )}
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <span>{isSending ? "Texting your caregivers" : "Caregivers will be texted unless this is cancelled."}</span>
+          {!isSending && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+              <Button size="sm" variant="destructive" onClick={onSendNow}>
+                Send Now
+              </Button>
+            </div>
+          )}
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
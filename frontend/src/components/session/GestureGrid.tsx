@@ -2,6 +2,8 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import type { DwellState } from "@/engine/gazeDwell";
+import { isPhraseBoard, type GestureMapping } from "@/engine/phraseBoard";
 import { 
   Eye, 
   EyeOff, 
@@ -10,20 +12,42 @@ import {
   ArrowUp, 
   ArrowDown,
   Zap,
-  Clock
+  Clock,
+  PanelLeftClose,
+  PanelRightClose,
+  Folder,
+  CornerUpLeft,
+  Repeat
 } from "lucide-react";
 
 interface GestureGridProps {
-  gestureMapping: Record<string, string>;
+  // The board currently open
+  gestureMapping: GestureMapping;
+  // Set inside sub-boards, where this gesture returns to the parent board
+  backGesture?: string;
+  // Gesture bound to repeating the last phrase
+  repeatGesture?: string | null;
+  // Gesture names from the active phrase pack, falling back to English
+  gestureLabels?: Record<string, string>;
   detectedGesture: string;
+  // Gaze held towards a look gesture, shown as a filling ring on its card
+  dwell?: DwellState | null;
   onGestureDetected: (gesture: string) => void;
 }
 
+type Command = "back" | "repeat";
+
 const gestureIcons: Record<string, any> = {
   "singleBlink": Eye,
   "doubleBlink": EyeOff,
   "tripleBlink": Zap,
   "longBlink": Clock,
+  "leftWink": PanelLeftClose,
+  "rightWink": PanelRightClose,
+  "lookUp": ArrowUp,
+  "lookDown": ArrowDown,
+  "lookLeft": ArrowLeft,
+  "lookRight": ArrowRight,
   "singleBlink_lookLeft": ArrowLeft,
   "singleBlink_lookRight": ArrowRight,
   "doubleBlink_lookUp": ArrowUp,
@@ -35,6 +59,12 @@ const gestureNames: Record<string, string> = {
   "doubleBlink": "Double Blink", 
   "tripleBlink": "Triple Blink",
   "longBlink": "Long Blink",
+  "leftWink": "Left Wink",
+  "rightWink": "Right Wink",
+  "lookUp": "Look Up",
+  "lookDown": "Look Down",
+  "lookLeft": "Look Left",
+  "lookRight": "Look Right",
   "singleBlink_lookLeft": "Blink + Look Left",
   "singleBlink_lookRight": "Blink + Look Right",
   "doubleBlink_lookUp": "Double Blink + Look Up",
@@ -43,11 +73,24 @@ const gestureNames: Record<string, string> = {
 
 export const GestureGrid = ({
   gestureMapping,
+  backGesture,
+  repeatGesture,
+  gestureLabels,
   detectedGesture,
+  dwell,
   onGestureDetected
 }: GestureGridProps) => {
   // Removed simulation mode - no auto-activation
 
+  // Command gestures are listed first and replace whatever the board maps them to
+  const commands: Record<string, Command> = {};
+  if (repeatGesture) commands[repeatGesture] = "repeat";
+  if (backGesture) commands[backGesture] = "back";
+  const gestures = [
+    ...Object.keys(commands),
+    ...Object.keys(gestureMapping).filter(gesture => !commands[gesture])
+  ];
+
   const handleGestureClick = (gesture: string) => {
     onGestureDetected(gesture);
   };
@@ -62,9 +105,12 @@ export const GestureGrid = ({
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-        {Object.entries(gestureMapping).map(([gesture, phrase]) => {
+        {gestures.map(gesture => {
+          const command = commands[gesture];
+          const entry = gestureMapping[gesture];
           const IconComponent = gestureIcons[gesture] || Eye;
           const isDetected = detectedGesture === gesture;
+          const dwellProgress = dwell?.direction === gesture ? dwell.progress : 0;
           
           return (
             <Card 
@@ -80,22 +126,49 @@ export const GestureGrid = ({
             >
               <CardContent className="p-4 text-center space-y-3">
                 <div className={cn(
-                  "w-12 h-12 mx-auto rounded-full flex items-center justify-center transition-colors",
+                  "relative w-12 h-12 mx-auto rounded-full flex items-center justify-center transition-colors",
                   {
                     "bg-primary text-primary-foreground": isDetected,
                     "bg-muted text-muted-foreground": !isDetected
                   }
                 )}>
                   <IconComponent className="w-6 h-6" />
+                  {dwellProgress > 0 && (
+                    <svg className="absolute -inset-1 w-14 h-14 -rotate-90 text-primary" viewBox="0 0 56 56">
+                      <circle
+                        cx="28"
+                        cy="28"
+                        r="26"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="3"
+                        strokeLinecap="round"
+                        pathLength={100}
+                        strokeDasharray={`${dwellProgress * 100} 100`}
+                      />
+                    </svg>
+                  )}
                 </div>
                 
                 <div className="space-y-1">
                   <h3 className="font-medium text-sm text-foreground">
-                    {gestureNames[gesture] || gesture}
+                    {gestureLabels?.[gesture] || gestureNames[gesture] || gesture}
                   </h3>
-                  <p className="text-xs text-muted-foreground line-clamp-2">
-                    "{phrase}"
-                  </p>
+                  {command ? (
+                    <p className="flex items-center justify-center gap-1 text-xs font-medium text-primary">
+                      {command === "back" ? <CornerUpLeft className="w-3 h-3" /> : <Repeat className="w-3 h-3" />}
+                      {command === "back" ? "Back" : "Repeat last phrase"}
+                    </p>
+                  ) : isPhraseBoard(entry) ? (
+                    <p className="flex items-center justify-center gap-1 text-xs font-medium text-primary line-clamp-2">
+                      <Folder className="w-3 h-3" />
+                      {entry.label}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground line-clamp-2">
+                      "{entry}"
+                    </p>
+                  )}
                 </div>
 
                 {isDetected && (
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,24 +6,77 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Save, RotateCcw, Import, Download } from "lucide-react";
+import { Save, RotateCcw, Import, Download, Upload, Plus, Trash2, FolderOpen, FolderPlus, ChevronRight, Mic, Cloud, CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useVoiceBank } from "@/hooks/useVoiceBank";
+import {
+  builtInGestureFor,
+  formatGesturePattern,
+  isCustomGestureKey,
+  parseGesturePattern
+} from "@/engine/gestureGrammar";
+import {
+  getBoardAt,
+  getBoardLabels,
+  isPhraseBoard,
+  listPhrases,
+  updateBoardAt,
+  DEFAULT_BACK_GESTURE,
+  type BoardEntry,
+  type GestureMapping
+} from "@/engine/phraseBoard";
+import { DEFAULT_GESTURE_MAPPING } from "@/data/defaultMapping";
+import type { SyncStatus } from "@/engine/mappingSync";
+import type { VersionedMapping } from "@/api/apiClient";
+import { exportClips, importClips, type VoiceClipBundle } from "@/utils/voiceBank";
+import { VoiceClipEditor } from "./VoiceClipEditor";
+import { MappingHistoryPanel } from "./MappingHistoryPanel";
 
 interface MappingEditorProps {
-  currentMapping: Record<string, string>;
-  onMappingUpdate: (newMapping: Record<string, string>) => void;
+  currentMapping: GestureMapping;
+  onMappingUpdate: (newMapping: GestureMapping) => void;
+  // Reserved for returning to the parent inside sub-boards
+  backGesture?: string;
+  // Whether edits have reached the backend yet
+  syncStatus?: SyncStatus;
+  // A revision restored from the history, already saved on the backend
+  onMappingRestored?: (restored: VersionedMapping) => void;
 }
 
-const gestureCategories = {
-  basic: ["singleBlink", "doubleBlink", "tripleBlink", "longBlink"],
-  combined: ["singleBlink_lookLeft", "singleBlink_lookRight", "doubleBlink_lookUp", "doubleBlink_lookDown"]
+const syncLabels: Record<SyncStatus, { label: string; icon: typeof Cloud }> = {
+  synced: { label: "Synced", icon: Cloud },
+  pending: { label: "Syncing...", icon: RefreshCw },
+  offline: { label: "Saved on this device", icon: CloudOff },
+  error: { label: "Not synced yet", icon: AlertTriangle }
 };
 
+// Phrase text, or the label of a sub-board
+const entryText = (entry: BoardEntry | undefined) => (isPhraseBoard(entry) ? entry.label : entry ?? "");
+
+// Export file carrying the mapping together with its recorded clips
+interface VoiceBundleFile {
+  mapping: GestureMapping;
+  clips: VoiceClipBundle;
+}
+
+const gestureCategories = [
+  { title: "Basic Gestures", gestures: ["singleBlink", "doubleBlink", "tripleBlink", "longBlink"] },
+  { title: "Winks", gestures: ["leftWink", "rightWink"] },
+  { title: "Look and Hold", gestures: ["lookUp", "lookDown", "lookLeft", "lookRight"] },
+  { title: "Combined Gestures", gestures: ["singleBlink_lookLeft", "singleBlink_lookRight", "doubleBlink_lookUp", "doubleBlink_lookDown"] }
+];
+
 const gestureLabels: Record<string, string> = {
   "singleBlink": "Single Blink",
   "doubleBlink": "Double Blink",
   "tripleBlink": "Triple Blink", 
   "longBlink": "Long Blink",
+  "leftWink": "Left Wink",
+  "rightWink": "Right Wink",
+  "lookUp": "Look Up",
+  "lookDown": "Look Down",
+  "lookLeft": "Look Left",
+  "lookRight": "Look Right",
   "singleBlink_lookLeft": "Blink + Look Left",
   "singleBlink_lookRight": "Blink + Look Right",
   "doubleBlink_lookUp": "Double Blink + Look Up",
@@ -32,19 +85,90 @@ const gestureLabels: Record<string, string> = {
 
 export const MappingEditor = ({
   currentMapping,
-  onMappingUpdate
+  onMappingUpdate,
+  backGesture = DEFAULT_BACK_GESTURE,
+  syncStatus,
+  onMappingRestored
 }: MappingEditorProps) => {
   const [editedMapping, setEditedMapping] = useState(currentMapping);
+  // Gesture keys leading from the root to the board being edited
+  const [editPath, setEditPath] = useState<string[]>([]);
   const [jsonInput, setJsonInput] = useState(JSON.stringify(currentMapping, null, 2));
+  const [newPattern, setNewPattern] = useState("");
+  const [newPatternPhrase, setNewPatternPhrase] = useState("");
+  // Gesture whose phrase is being recorded
+  const [clipGesture, setClipGesture] = useState<string | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const voiceBank = useVoiceBank();
   const { toast } = useToast();
 
+  const board = getBoardAt(editedMapping, editPath);
+  const boardLabels = getBoardLabels(editedMapping, editPath);
+  const isSubBoard = editPath.length > 0;
+  const customGestures = Object.keys(board).filter(isCustomGestureKey);
+
+  const updateBoard = (update: (mapping: GestureMapping) => GestureMapping) => {
+    setEditedMapping(prev => updateBoardAt(prev, editPath, update));
+  };
+
   const handlePhraseChange = (gesture: string, phrase: string) => {
-    setEditedMapping(prev => ({
-      ...prev,
+    updateBoard(mapping => ({
+      ...mapping,
       [gesture]: phrase
     }));
   };
 
+  const handleBoardLabelChange = (gesture: string, label: string) => {
+    updateBoard(mapping => {
+      const entry = mapping[gesture];
+      return isPhraseBoard(entry) ? { ...mapping, [gesture]: { ...entry, label } } : mapping;
+    });
+  };
+
+  // Turn a phrase into a sub-board named after it, or a sub-board back into a phrase
+  const handleToggleBoard = (gesture: string) => {
+    updateBoard(mapping => {
+      const entry = mapping[gesture];
+      return {
+        ...mapping,
+        [gesture]: isPhraseBoard(entry) ? entry.label : { label: entry || "New board", mapping: {} }
+      };
+    });
+  };
+
+  // Custom patterns are stored in the mapping under their canonical pattern text
+  const handleAddPattern = () => {
+    try {
+      const pattern = formatGesturePattern(parseGesturePattern(newPattern));
+      const builtIn = builtInGestureFor(pattern);
+      if (builtIn) {
+        toast({
+          title: "Pattern Already Exists",
+          description: `"${pattern}" is the built-in ${gestureLabels[builtIn]} gesture`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      updateBoard(mapping => ({ ...mapping, [pattern]: newPatternPhrase }));
+      setNewPattern("");
+      setNewPatternPhrase("");
+    } catch (error) {
+      toast({
+        title: "Invalid Pattern",
+        description: error instanceof Error ? error.message : "Please check the pattern",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemovePattern = (gesture: string) => {
+    updateBoard(mapping => {
+      const { [gesture]: _removed, ...rest } = mapping;
+      return rest;
+    });
+  };
+
   const handleSave = () => {
     onMappingUpdate(editedMapping);
     toast({
@@ -54,24 +178,24 @@ export const MappingEditor = ({
   };
 
   const handleReset = () => {
-    const defaultMapping = {
-      "singleBlink": "Hello",
-      "doubleBlink": "Yes",
-      "tripleBlink": "No", 
-      "longBlink": "Thank you",
-      "singleBlink_lookLeft": "I need help",
-      "singleBlink_lookRight": "I'm okay",
-      "doubleBlink_lookUp": "Water please",
-      "doubleBlink_lookDown": "I'm tired"
-    };
-    setEditedMapping(defaultMapping);
-    setJsonInput(JSON.stringify(defaultMapping, null, 2));
+    setEditedMapping(DEFAULT_GESTURE_MAPPING);
+    setEditPath([]);
+    setJsonInput(JSON.stringify(DEFAULT_GESTURE_MAPPING, null, 2));
+  };
+
+  // The restored revision replaces any unsaved edits here
+  const handleRestored = (restored: VersionedMapping) => {
+    setEditedMapping(restored.mapping);
+    setEditPath([]);
+    setJsonInput(JSON.stringify(restored.mapping, null, 2));
+    onMappingRestored?.(restored);
   };
 
   const handleJsonUpdate = () => {
     try {
       const parsed = JSON.parse(jsonInput);
       setEditedMapping(parsed);
+      setEditPath([]);
       toast({
         title: "JSON Imported",
         description: "Mappings updated from JSON input"
@@ -93,59 +217,241 @@ export const MappingEditor = ({
     });
   };
 
+  const handleExportWithClips = async () => {
+    const bundle: VoiceBundleFile = {
+      mapping: editedMapping,
+      clips: await exportClips(listPhrases(editedMapping))
+    };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "blink-speech-mapping.json";
+    link.click();
+    URL.revokeObjectURL(url);
+    toast({
+      title: "Mapping Exported",
+      description: `Saved with ${Object.keys(bundle.clips).length} voice clips`
+    });
+  };
+
+  // Accepts an exported bundle or a plain mapping file
+  const handleImportFile = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      const isBundle = parsed?.mapping && parsed?.clips;
+      const mapping: GestureMapping = isBundle ? parsed.mapping : parsed;
+      const clipCount = isBundle ? await importClips(parsed.clips) : 0;
+      setEditedMapping(mapping);
+      setEditPath([]);
+      setJsonInput(JSON.stringify(mapping, null, 2));
+      voiceBank.refresh();
+      toast({
+        title: "Mapping Imported",
+        description: clipCount > 0 ? `Imported with ${clipCount} voice clips` : "Mappings updated from file"
+      });
+    } catch (error) {
+      console.error("Failed to import mapping file:", error);
+      toast({
+        title: "Import Failed",
+        description: "This file is not a valid mapping export",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderSyncBadge = (status: SyncStatus) => {
+    const { label, icon: Icon } = syncLabels[status];
+    return (
+      <Badge variant={status === "error" ? "destructive" : "secondary"} className="gap-1 font-normal">
+        <Icon className="w-3 h-3" />
+        {label}
+      </Badge>
+    );
+  };
+
+  // Record button for a phrase; boards and empty entries have nothing to record
+  const renderClipButton = (gesture: string, entry: BoardEntry | undefined) => {
+    if (isPhraseBoard(entry) || !entry?.trim()) return null;
+    const hasClip = voiceBank.hasClip(entry);
+    return (
+      <Button
+        variant={hasClip ? "secondary" : "outline"}
+        size="icon"
+        onClick={() => setClipGesture(clipGesture === gesture ? null : gesture)}
+        aria-label={hasClip ? "Edit voice clip" : "Record voice clip"}
+        title={hasClip ? "Edit voice clip" : "Record voice clip"}
+      >
+        <Mic className={hasClip ? "w-4 h-4 text-primary" : "w-4 h-4"} />
+      </Button>
+    );
+  };
+
+  const renderClipEditor = (gesture: string, entry: BoardEntry | undefined) => {
+    if (clipGesture !== gesture || isPhraseBoard(entry) || !entry?.trim()) return null;
+    return (
+      <VoiceClipEditor
+        key={entry}
+        phrase={entry}
+        hasClip={voiceBank.hasClip(entry)}
+        onChange={voiceBank.refresh}
+      />
+    );
+  };
+
+  const renderGestureRow = (gesture: string, label: string) => {
+    if (isSubBoard && gesture === backGesture) {
+      return (
+        <div key={gesture} className="space-y-1">
+          <Label className="text-sm font-medium">{label}</Label>
+          <Input value="Back to previous board" disabled className="text-sm" />
+        </div>
+      );
+    }
+
+    const entry = board[gesture];
+    const isBoard = isPhraseBoard(entry);
+
+    return (
+      <div key={gesture} className="space-y-1">
+        <Label className="text-sm font-medium">{label}</Label>
+        <div className="flex gap-2">
+          <Input
+            value={entryText(entry)}
+            onChange={(e) => isBoard
+              ? handleBoardLabelChange(gesture, e.target.value)
+              : handlePhraseChange(gesture, e.target.value)}
+            placeholder={isBoard ? "Board name..." : "Enter phrase..."}
+            className={isBoard ? "text-sm font-medium" : "text-sm"}
+          />
+          {isBoard && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setEditPath([...editPath, gesture])}
+              aria-label={`Open ${entry.label}`}
+            >
+              <FolderOpen className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant={isBoard ? "secondary" : "outline"}
+            size="icon"
+            onClick={() => handleToggleBoard(gesture)}
+            aria-label={isBoard ? "Turn into a phrase" : "Turn into a sub-board"}
+            title={isBoard ? "Turn into a phrase" : "Turn into a sub-board"}
+          >
+            <FolderPlus className="w-4 h-4" />
+          </Button>
+          {renderClipButton(gesture, entry)}
+        </div>
+        {renderClipEditor(gesture, entry)}
+      </div>
+    );
+  };
+
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           <span>Mapping Editor</span>
-          <Badge variant="outline">{Object.keys(editedMapping).length} gestures</Badge>
+          <div className="flex items-center gap-2">
+            {syncStatus && renderSyncBadge(syncStatus)}
+            <Badge variant="outline">{Object.keys(board).length} gestures</Badge>
+          </div>
         </CardTitle>
       </CardHeader>
       
       <CardContent className="space-y-4">
         <Tabs defaultValue="visual" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className={onMappingRestored ? "grid w-full grid-cols-3" : "grid w-full grid-cols-2"}>
             <TabsTrigger value="visual">Visual Editor</TabsTrigger>
             <TabsTrigger value="json">JSON Editor</TabsTrigger>
+            {onMappingRestored && <TabsTrigger value="history">History</TabsTrigger>}
           </TabsList>
           
           <TabsContent value="visual" className="space-y-4">
             <div className="space-y-4">
-              <div>
-                <h3 className="font-medium mb-3">Basic Gestures</h3>
-                <div className="space-y-3">
-                  {gestureCategories.basic.map(gesture => (
-                    <div key={gesture} className="space-y-1">
-                      <Label className="text-sm font-medium">
-                        {gestureLabels[gesture]}
-                      </Label>
-                      <Input
-                        value={editedMapping[gesture] || ""}
-                        onChange={(e) => handlePhraseChange(gesture, e.target.value)}
-                        placeholder="Enter phrase..."
-                        className="text-sm"
-                      />
-                    </div>
-                  ))}
-                </div>
+              <div className="flex flex-wrap items-center gap-1 text-sm">
+                {boardLabels.map((boardLabel, depth) => (
+                  <span key={depth} className="flex items-center gap-1">
+                    {depth > 0 && <ChevronRight className="w-3 h-3 text-muted-foreground" />}
+                    <button
+                      type="button"
+                      onClick={() => setEditPath(editPath.slice(0, depth))}
+                      className={depth === boardLabels.length - 1 ? "font-medium" : "text-muted-foreground hover:underline"}
+                    >
+                      {boardLabel}
+                    </button>
+                  </span>
+                ))}
               </div>
 
+              {gestureCategories.map(category => (
+                <div key={category.title}>
+                  <h3 className="font-medium mb-3">{category.title}</h3>
+                  <div className="space-y-3">
+                    {category.gestures.map(gesture => renderGestureRow(gesture, gestureLabels[gesture]))}
+                  </div>
+                </div>
+              ))}
+
               <div>
-                <h3 className="font-medium mb-3">Combined Gestures</h3>
+                <h3 className="font-medium mb-1">Custom Patterns</h3>
+                <p className="text-xs text-muted-foreground mb-3">
+                  Combine short, long, wink-left, wink-right and look-up/down/left/right,
+                  e.g. "long, short, short" or "wink-left then look-up"
+                </p>
                 <div className="space-y-3">
-                  {gestureCategories.combined.map(gesture => (
+                  {customGestures.map(gesture => (
                     <div key={gesture} className="space-y-1">
-                      <Label className="text-sm font-medium">
-                        {gestureLabels[gesture]}
-                      </Label>
-                      <Input
-                        value={editedMapping[gesture] || ""}
-                        onChange={(e) => handlePhraseChange(gesture, e.target.value)}
-                        placeholder="Enter phrase..."
-                        className="text-sm"
-                      />
+                      <Label className="text-sm font-medium">{gesture}</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          value={entryText(board[gesture])}
+                          onChange={(e) => isPhraseBoard(board[gesture])
+                            ? handleBoardLabelChange(gesture, e.target.value)
+                            : handlePhraseChange(gesture, e.target.value)}
+                          placeholder="Enter phrase..."
+                          className="text-sm"
+                        />
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => handleRemovePattern(gesture)}
+                          aria-label={`Remove ${gesture}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                        {renderClipButton(gesture, board[gesture])}
+                      </div>
+                      {renderClipEditor(gesture, board[gesture])}
                     </div>
                   ))}
+
+                  <div className="space-y-2 rounded-md border border-dashed p-3">
+                    <Input
+                      value={newPattern}
+                      onChange={(e) => setNewPattern(e.target.value)}
+                      placeholder="Pattern, e.g. long, short, short"
+                      className="text-sm font-mono"
+                    />
+                    <Input
+                      value={newPatternPhrase}
+                      onChange={(e) => setNewPatternPhrase(e.target.value)}
+                      placeholder="Phrase to speak..."
+                      className="text-sm"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleAddPattern}
+                      disabled={!newPattern.trim() || !newPatternPhrase.trim()}
+                      className="gap-2"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add Pattern
+                    </Button>
+                  </div>
                 </div>
               </div>
             </div>
@@ -170,7 +476,41 @@ export const MappingEditor = ({
                 Apply JSON
               </Button>
             </div>
+
+            <div className="space-y-2 pt-4 border-t">
+              <Label className="text-sm font-medium">Voice Clips</Label>
+              <p className="text-xs text-muted-foreground">
+                Export or import the mapping together with the phrases recorded for it
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleExportWithClips} className="gap-2">
+                  <Download className="w-4 h-4" />
+                  Export with Voice Clips
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => bundleInputRef.current?.click()} className="gap-2">
+                  <Upload className="w-4 h-4" />
+                  Import File
+                </Button>
+                <input
+                  ref={bundleInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportFile(file);
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+            </div>
           </TabsContent>
+
+          {onMappingRestored && (
+            <TabsContent value="history" className="space-y-4">
+              <MappingHistoryPanel gestureLabels={gestureLabels} onRestored={handleRestored} />
+            </TabsContent>
+          )}
         </Tabs>
 
         <div className="flex items-center gap-2 pt-4 border-t">
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ChevronRight, History, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useMappingHistory } from "@/hooks/useMappingHistory";
+import type { MappingChange, MappingRevision, VersionedMapping } from "@/api/apiClient";
+
+interface MappingHistoryPanelProps {
+  // Names for built-in gesture keys; custom patterns are shown as written
+  gestureLabels: Record<string, string>;
+  onRestored: (restored: VersionedMapping) => void;
+}
+
+const authorName = (revision: MappingRevision) =>
+  revision.author ?? (revision.authorKind === "user" ? "Signed-in account" : revision.authorKind === "device" ? "A device" : "Unknown");
+
+// Saved versions of the mapping: who changed what, and a way back to any of them
+export const MappingHistoryPanel = ({ gestureLabels, onRestored }: MappingHistoryPanelProps) => {
+  const history = useMappingHistory();
+  // Changes of each expanded revision, once loaded
+  const [changes, setChanges] = useState<Record<number, MappingChange[] | "loading" | "failed">>({});
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const toggleChanges = async (version: number) => {
+    if (changes[version] && changes[version] !== "failed") {
+      setChanges(current => {
+        const next = { ...current };
+        delete next[version];
+        return next;
+      });
+      return;
+    }
+    setChanges(current => ({ ...current, [version]: "loading" }));
+    try {
+      const versionChanges = await history.changesIn(version);
+      setChanges(current => ({ ...current, [version]: versionChanges }));
+    } catch (error) {
+      console.error("Failed to load changes:", error);
+      setChanges(current => ({ ...current, [version]: "failed" }));
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    try {
+      setRestoring(version);
+      const restored = await history.restore(version);
+      onRestored(restored);
+      setChanges({});
+      toast({
+        title: "Version Restored",
+        description: `Version ${version} is back as version ${restored.version}`
+      });
+    } catch (error) {
+      toast({
+        title: "Version Not Restored",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const renderChange = (change: MappingChange, index: number) => {
+    const path = change.path.map(key => gestureLabels[key] ?? key).join(" › ");
+    return (
+      <li key={index} className="text-xs space-y-0.5">
+        <div className="text-muted-foreground">{path}</div>
+        {change.kind === "added" && <div className="text-green-700">+ {change.after}</div>}
+        {change.kind === "removed" && <div className="text-red-700 line-through">{change.before}</div>}
+        {change.kind === "changed" && (
+          <div>
+            <span className="text-red-700 line-through">{change.before}</span>
+            {" → "}
+            <span className="text-green-700">{change.after}</span>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  const renderChanges = (version: number) => {
+    const versionChanges = changes[version];
+    if (!versionChanges) return null;
+    if (versionChanges === "loading") return <p className="text-xs text-muted-foreground">Loading changes...</p>;
+    if (versionChanges === "failed") return <p className="text-xs text-destructive">Could not load the changes</p>;
+    if (versionChanges.length === 0) return <p className="text-xs text-muted-foreground">No phrases changed</p>;
+    return <ul className="space-y-2">{versionChanges.map(renderChange)}</ul>;
+  };
+
+  if (history.error) {
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-destructive">Could not load history: {history.error}</p>
+        <Button variant="outline" size="sm" onClick={history.refresh}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+  if (history.isLoading && history.revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  }
+  if (history.revisions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No saved versions yet. Each change is kept here once it has synced.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {history.revisions.map((revision, index) => (
+        <div key={revision.version} className="rounded-md border p-3 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div className="space-y-1 min-w-0">
+              <div className="text-sm font-medium flex items-center gap-2">
+                Version {revision.version}
+                {index === 0 && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                {revision.restoredFrom !== null && (
+                  <Badge variant="outline" className="text-xs gap-1">
+                    <History className="w-3 h-3" />
+                    Restored v{revision.restoredFrom}
+                  </Badge>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {authorName(revision)} · {new Date(revision.updatedAt).toLocaleString()}
+              </div>
+            </div>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => toggleChanges(revision.version)}
+                className="gap-1"
+              >
+                {changes[revision.version] ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                Changes
+              </Button>
+              {index > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(revision.version)}
+                  disabled={restoring !== null}
+                  className="gap-1"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  {restoring === revision.version ? "Restoring..." : "Restore"}
+                </Button>
+              )}
+            </div>
+          </div>
+          {renderChanges(revision.version)}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Delete, Send, X } from "lucide-react";
+import { MORSE_CODE } from "@/engine/morseDecoder";
+import type { Prediction } from "@/engine/wordPredictor";
+import { PredictionBar } from "@/components/session/PredictionBar";
+
+interface MorseStripProps {
+  code: string;
+  candidate: string | null;
+  predictions: Prediction[];
+  onPredictionSelect: (prediction: Prediction) => void;
+  onDelete: () => void;
+  onSend: () => void;
+  onClear: () => void;
+}
+
+const letters = Object.entries(MORSE_CODE).filter(([, letter]) => /[A-Z]/.test(letter));
+
+export const MorseStrip = ({
+  code,
+  candidate,
+  predictions,
+  onPredictionSelect,
+  onDelete,
+  onSend,
+  onClear
+}: MorseStripProps) => {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-foreground">Morse Typing</h2>
+        <Badge variant="outline" className="text-xs">
+          Live Decoding
+        </Badge>
+      </div>
+
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-center justify-center gap-6 min-h-[72px]">
+            <div className="flex items-center gap-2 font-mono text-4xl text-primary tracking-widest">
+              {code ? (
+                code.split("").map((symbol, index) => (
+                  <span key={index}>{symbol === "." ? "•" : "—"}</span>
+                ))
+              ) : (
+                <span className="text-lg text-muted-foreground tracking-normal">Blink to start a letter</span>
+              )}
+            </div>
+            {code && (
+              <div className="text-4xl font-bold text-foreground w-12 text-center">
+                {candidate ?? "?"}
+              </div>
+            )}
+          </div>
+
+          <PredictionBar
+            predictions={predictions}
+            onSelect={onPredictionSelect}
+            gestureHint="Keep your eyes closed for 1.5 seconds to accept the first suggestion"
+          />
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-muted-foreground text-center">
+            <div>Short blink = dot</div>
+            <div>Long blink = dash</div>
+            <div>Left wink = delete</div>
+            <div>Right wink = speak &amp; send</div>
+          </div>
+
+          <div className="flex items-center justify-center gap-2">
+            <Button variant="outline" size="sm" onClick={onDelete} className="gap-2">
+              <Delete className="w-4 h-4" />
+              Delete
+            </Button>
+            <Button variant="outline" size="sm" onClick={onClear} className="gap-2">
+              <X className="w-4 h-4" />
+              Clear
+            </Button>
+            <Button size="sm" onClick={onSend} className="gap-2">
+              <Send className="w-4 h-4" />
+              Speak &amp; Send
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-4 md:grid-cols-7 gap-2">
+        {letters.map(([symbols, letter]) => (
+          <div
+            key={letter}
+            className={`rounded-md border px-2 py-1 text-center ${
+              candidate === letter ? "bg-primary/10 border-primary/40" : "bg-white/60"
+            }`}
+          >
+            <div className="font-semibold text-sm">{letter}</div>
+            <div className="font-mono text-xs text-muted-foreground">{symbols}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
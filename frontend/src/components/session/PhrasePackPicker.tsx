@@ -0,0 +1,147 @@
+import { useRef, useState } from "react";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Languages, Upload, Download, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { parsePhrasePack, serializePhrasePack, type PhrasePack } from "@/engine/phrasePack";
+import type { GestureMapping } from "@/engine/phraseBoard";
+import { isBuiltInPack } from "@/utils/phrasePackStorage";
+
+interface PhrasePackPickerProps {
+  packs: PhrasePack[];
+  activePack: PhrasePack;
+  // The mapping as edited this session, exported in place of the pack's original
+  currentMapping: GestureMapping;
+  // `usePhrases` is set only when the user chose to replace their mapping with the pack's
+  onSelect: (pack: PhrasePack, usePhrases: boolean) => void;
+  // Installs the pack; switching to it is then offered like any other
+  onImport: (pack: PhrasePack) => void;
+  onRemove: (id: string) => void;
+}
+
+export const PhrasePackPicker = ({
+  packs,
+  activePack,
+  currentMapping,
+  onSelect,
+  onImport,
+  onRemove
+}: PhrasePackPickerProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // The pack waiting for the user to say whether its phrases replace theirs
+  const [pendingPack, setPendingPack] = useState<PhrasePack | null>(null);
+  const { toast } = useToast();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const pack = parsePhrasePack(await file.text());
+      onImport(pack);
+      setPendingPack(pack);
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Please check the pack file",
+        variant: "destructive"
+      });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleExport = () => {
+    const pack = { ...activePack, mapping: currentMapping };
+    const url = URL.createObjectURL(new Blob([serializePhrasePack(pack)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `phrase-pack-${pack.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Languages className="w-4 h-4 text-muted-foreground" />
+      <Select
+        value={activePack.id}
+        onValueChange={(id) => {
+          const pack = packs.find(candidate => candidate.id === id);
+          if (pack) setPendingPack(pack);
+        }}
+      >
+        <SelectTrigger className="w-44 h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {packs.map(pack => (
+            <SelectItem key={pack.id} value={pack.id}>
+              {pack.name} ({pack.language})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="gap-2">
+        <Upload className="w-4 h-4" />
+        Import
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleExport} className="gap-2">
+        <Download className="w-4 h-4" />
+        Export
+      </Button>
+      {!isBuiltInPack(activePack.id) && (
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-9 w-9"
+          onClick={() => onRemove(activePack.id)}
+          aria-label={`Remove ${activePack.name}`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+
+      <AlertDialog open={pendingPack !== null} onOpenChange={(open) => !open && setPendingPack(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Switch to {pendingPack?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Speech switches to {pendingPack?.language}. You can keep the phrases you have now,
+              or replace them with this pack's.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: "outline" })}
+              onClick={() => pendingPack && onSelect(pendingPack, false)}
+            >
+              Keep My Phrases
+            </AlertDialogAction>
+            <AlertDialogAction onClick={() => pendingPack && onSelect(pendingPack, true)}>
+              Use Pack Phrases
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -5,15 +5,20 @@ import { Button } from "@/components/ui/button";
 import { Volume2, Copy, Check } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { speakPhrase } from "@/utils/speechSynthesis";
 
 interface PhrasePreviewProps {
   currentPhrase: string;
   detectedGesture: string;
+  title?: string;
+  emptyMessage?: string;
 }
 
 export const PhrasePreview = ({
   currentPhrase,
-  detectedGesture
+  detectedGesture,
+  title = "Current Phrase",
+  emptyMessage = "No gesture detected yet"
 }: PhrasePreviewProps) => {
   const [isAnimating, setIsAnimating] = useState(false);
   const [copied, setCopied] = useState(false);
@@ -28,10 +33,8 @@ export const PhrasePreview = ({
   }, [currentPhrase]);
 
   const handleSpeak = () => {
-    if (currentPhrase && 'speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(currentPhrase);
-      speechSynthesis.speak(utterance);
-    }
+    // A deliberate request, so never dropped as a repeat
+    if (currentPhrase) speakPhrase(currentPhrase, { settings: { duplicateWindowMs: 0 } });
   };
 
   const handleCopy = async () => {
@@ -66,7 +69,7 @@ export const PhrasePreview = ({
         <div className="text-center space-y-6">
           <div className="space-y-2">
             <h2 className="text-lg font-medium text-muted-foreground">
-              Current Phrase
+              {title}
             </h2>
             {detectedGesture && (
               <Badge variant="outline" className="text-xs">
@@ -87,7 +90,7 @@ export const PhrasePreview = ({
               </p>
             ) : (
               <p className="text-xl text-muted-foreground">
-                No gesture detected yet
+                {emptyMessage}
               </p>
             )}
           </div>
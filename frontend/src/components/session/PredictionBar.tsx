@@ -0,0 +1,35 @@
+import { Button } from "@/components/ui/button";
+import { Sparkles } from "lucide-react";
+import type { Prediction } from "@/engine/wordPredictor";
+
+interface PredictionBarProps {
+  predictions: Prediction[];
+  onSelect: (prediction: Prediction) => void;
+  // How the first suggestion is accepted hands-free, shown as a hint
+  gestureHint?: string;
+}
+
+export const PredictionBar = ({ predictions, onSelect, gestureHint }: PredictionBarProps) => {
+  if (predictions.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <Sparkles className="w-4 h-4 text-primary" />
+        {predictions.map((prediction, index) => (
+          <Button
+            key={prediction.text}
+            variant={index === 0 ? "default" : "outline"}
+            size="sm"
+            onClick={() => onSelect(prediction)}
+          >
+            {prediction.label}
+          </Button>
+        ))}
+      </div>
+      {gestureHint && (
+        <p className="text-xs text-center text-muted-foreground">{gestureHint}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,420 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Volume2 } from "lucide-react";
+import type { AppSettings } from "@/utils/settingsStorage";
+import type { GazeSource } from "@/utils/gazeUtils";
+import type { SpeechPolicy } from "@/engine/speechQueue";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { speakPhrase } from "@/utils/speechSynthesis";
+import { useVoices } from "@/hooks/useVoices";
+import type { CaregiverContacts } from "@/hooks/useCaregiverContacts";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ContactsPanel } from "./ContactsPanel";
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSettingsUpdate: (settings: AppSettings) => void;
+  contacts: CaregiverContacts;
+}
+
+const gazeSources: { value: GazeSource; label: string; description: string }[] = [
+  {
+    value: "webgazer",
+    label: "WebGazer",
+    description: "Screen-point predictions trained during calibration"
+  },
+  {
+    value: "iris",
+    label: "Iris landmarks",
+    description: "Direction from iris position in the face mesh; lighter and needs no gaze calibration"
+  }
+];
+
+// Gestures simple enough to reserve for commands such as leaving a sub-board
+const commandGestures = [
+  { value: "longBlink", label: "Long Blink" },
+  { value: "tripleBlink", label: "Triple Blink" },
+  { value: "leftWink", label: "Left Wink" },
+  { value: "rightWink", label: "Right Wink" }
+];
+
+// Radix selects need non-empty values for the "nothing chosen" options
+const DEFAULT_VOICE = "default";
+const NO_GESTURE = "none";
+
+const ttsEngines: { value: AppSettings["ttsEngine"]; label: string }[] = [
+  { value: "auto", label: "Automatic" },
+  { value: "webSpeech", label: "Browser voices" },
+  { value: "offline", label: "Offline voice (bundled)" },
+  { value: "server", label: "Local TTS server" }
+];
+
+const speechPolicies: { value: SpeechPolicy; label: string; description: string }[] = [
+  {
+    value: "queue",
+    label: "Queue",
+    description: "Let the current phrase finish, then say the next one"
+  },
+  {
+    value: "interrupt",
+    label: "Interrupt",
+    description: "Cut off the current phrase and say the new one at once"
+  }
+];
+const previewText = "Hello, this is how I will sound.";
+
+// Hold gestures that can raise an emergency alert; long blinks in them must be held
+const emergencyGestures = [
+  { value: "longBlink", label: "Long Blink (held)" },
+  { value: "long, long", label: "Two Long Blinks (held)" },
+  { value: "tripleBlink", label: "Triple Blink" }
+];
+
+export const SettingsPanel = ({ settings, onSettingsUpdate, contacts }: SettingsPanelProps) => {
+  const update = (changes: Partial<AppSettings>) => onSettingsUpdate({ ...settings, ...changes });
+  const voices = useVoices();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Settings</CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <Tabs defaultValue="general" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="general">General</TabsTrigger>
+            <TabsTrigger value="contacts">Contacts</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="general" className="space-y-4">
+            <div className="space-y-3">
+              <h3 className="font-medium">Voice</h3>
+              <div className="space-y-2">
+                <Label className="text-sm">Speech engine</Label>
+                <Select
+                  value={settings.ttsEngine}
+                  onValueChange={(value) => update({ ttsEngine: value as AppSettings["ttsEngine"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ttsEngines.map(engine => (
+                      <SelectItem key={engine.value} value={engine.value}>{engine.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Automatic uses browser voices and falls back to the offline voice, then the local server
+                </p>
+              </div>
+              {settings.ttsEngine === "server" && (
+                <div className="space-y-2">
+                  <Label htmlFor="tts-server-url" className="text-sm">Server URL</Label>
+                  <Input
+                    id="tts-server-url"
+                    value={settings.ttsServerUrl}
+                    onChange={(e) => update({ ttsServerUrl: e.target.value })}
+                    placeholder="http://localhost:5002/api/tts"
+                    className="text-sm"
+                  />
+                </div>
+              )}
+
+              <Select
+                value={settings.voiceURI ?? DEFAULT_VOICE}
+                onValueChange={(value) => update({ voiceURI: value === DEFAULT_VOICE ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VOICE}>Browser default</SelectItem>
+                  {voices.map(voice => (
+                    <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                      {voice.name} ({voice.lang})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {voices.length === 0 && (
+                <p className="text-xs text-muted-foreground">No voices reported by this browser yet</p>
+              )}
+
+              <div className="space-y-2">
+                <Label className="text-sm">Rate: {settings.speechRate.toFixed(1)}x</Label>
+                <Slider
+                  min={0.5}
+                  max={2}
+                  step={0.1}
+                  value={[settings.speechRate]}
+                  onValueChange={([value]) => update({ speechRate: value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-sm">Pitch: {settings.speechPitch.toFixed(1)}</Label>
+                <Slider
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={[settings.speechPitch]}
+                  onValueChange={([value]) => update({ speechPitch: value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-sm">Volume: {Math.round(settings.speechVolume * 100)}%</Label>
+                <Slider
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={[settings.speechVolume]}
+                  onValueChange={([value]) => update({ speechVolume: value })}
+                />
+              </div>
+
+              <Button variant="outline" size="sm" onClick={() => speakPhrase(previewText, { policy: "interrupt", settings })} className="gap-2">
+                <Volume2 className="w-4 h-4" />
+                Preview Voice
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">When phrases overlap</h3>
+              <RadioGroup
+                value={settings.speechPolicy}
+                onValueChange={(value) => update({ speechPolicy: value as SpeechPolicy })}
+                className="space-y-2"
+              >
+                {speechPolicies.map(policy => (
+                  <div key={policy.value} className="flex items-start gap-3">
+                    <RadioGroupItem value={policy.value} id={`policy-${policy.value}`} className="mt-1" />
+                    <Label htmlFor={`policy-${policy.value}`} className="space-y-1 cursor-pointer">
+                      <div className="text-sm font-medium">{policy.label}</div>
+                      <div className="text-xs text-muted-foreground font-normal">{policy.description}</div>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+
+              <div className="space-y-2">
+                <Label className="text-sm">
+                  Ignore repeats within: {settings.duplicateWindowMs ? `${(settings.duplicateWindowMs / 1000).toFixed(1)}s` : "off"}
+                </Label>
+                <Slider
+                  min={0}
+                  max={5000}
+                  step={250}
+                  value={[settings.duplicateWindowMs]}
+                  onValueChange={([value]) => update({ duplicateWindowMs: value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="urgent-phrases" className="space-y-1">
+                  <div className="text-sm">Urgent phrases</div>
+                  <div className="text-xs text-muted-foreground font-normal">
+                    One per line; these cut off everything else and are never skipped
+                  </div>
+                </Label>
+                <Textarea
+                  id="urgent-phrases"
+                  value={settings.urgentPhrases.join("\n")}
+                  onChange={(e) => update({ urgentPhrases: e.target.value.split("\n") })}
+                  rows={3}
+                  className="text-sm"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm">Repeat last phrase gesture</Label>
+                <Select
+                  value={settings.repeatGesture ?? NO_GESTURE}
+                  onValueChange={(value) => update({ repeatGesture: value === NO_GESTURE ? null : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_GESTURE}>None</SelectItem>
+                    {commandGestures.map(gesture => (
+                      <SelectItem key={gesture.value} value={gesture.value}>{gesture.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="font-medium mb-3">Gaze Source</h3>
+              <RadioGroup
+                value={settings.gazeSource}
+                onValueChange={(value) => update({ gazeSource: value as GazeSource })}
+                className="space-y-2"
+              >
+                {gazeSources.map(source => (
+                  <div key={source.value} className="flex items-start gap-3">
+                    <RadioGroupItem value={source.value} id={`gaze-${source.value}`} className="mt-1" />
+                    <Label htmlFor={`gaze-${source.value}`} className="space-y-1 cursor-pointer">
+                      <div className="text-sm font-medium">{source.label}</div>
+                      <div className="text-xs text-muted-foreground font-normal">{source.description}</div>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="dwell-gestures" className="space-y-1">
+                  <div className="font-medium">Look and hold</div>
+                  <div className="text-xs text-muted-foreground font-normal">
+                    Trigger look gestures by holding your gaze, no blink needed
+                  </div>
+                </Label>
+                <Switch
+                  id="dwell-gestures"
+                  checked={settings.dwellGestures}
+                  onCheckedChange={(checked) => update({ dwellGestures: checked })}
+                />
+              </div>
+
+              {settings.dwellGestures && (
+                <>
+                  <div className="space-y-2">
+                    <Label className="text-sm">Dwell time: {(settings.dwellMs / 1000).toFixed(1)}s</Label>
+                    <Slider
+                      min={500}
+                      max={4000}
+                      step={100}
+                      value={[settings.dwellMs]}
+                      onValueChange={([value]) => update({ dwellMs: value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm">Cooldown: {(settings.dwellCooldownMs / 1000).toFixed(1)}s</Label>
+                    <Slider
+                      min={500}
+                      max={6000}
+                      step={100}
+                      value={[settings.dwellCooldownMs]}
+                      onValueChange={([value]) => update({ dwellCooldownMs: value })}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="space-y-1">
+                <div className="font-medium">Back gesture</div>
+                <div className="text-xs text-muted-foreground font-normal">
+                  Returns to the previous phrase board; its phrase is not used inside sub-boards
+                </div>
+              </Label>
+              <Select value={settings.backGesture} onValueChange={(value) => update({ backGesture: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {commandGestures.map(gesture => (
+                    <SelectItem key={gesture.value} value={gesture.value}>{gesture.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-3">
+              <Label className="space-y-1">
+                <div className="font-medium">Emergency alert</div>
+                <div className="text-xs text-muted-foreground font-normal">
+                  Texts caregivers on the Contacts tab after a countdown that can be cancelled
+                </div>
+              </Label>
+              <Select
+                value={settings.emergencyGesture ?? NO_GESTURE}
+                onValueChange={(value) => update({ emergencyGesture: value === NO_GESTURE ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_GESTURE}>Off</SelectItem>
+                  {emergencyGestures.map(gesture => (
+                    <SelectItem key={gesture.value} value={gesture.value}>{gesture.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {settings.emergencyGesture && (
+                <>
+                  <div className="space-y-2">
+                    <Label className="text-sm">Hold for: {(settings.emergencyHoldMs / 1000).toFixed(1)}s</Label>
+                    <Slider
+                      min={1500}
+                      max={8000}
+                      step={500}
+                      value={[settings.emergencyHoldMs]}
+                      onValueChange={([value]) => update({ emergencyHoldMs: value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm">Countdown: {settings.emergencyCountdownS}s</Label>
+                    <Slider
+                      min={0}
+                      max={30}
+                      step={1}
+                      value={[settings.emergencyCountdownS]}
+                      onValueChange={([value]) => update({ emergencyCountdownS: value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="emergency-message" className="space-y-1">
+                      <div className="text-sm">Alert message</div>
+                      <div className="text-xs text-muted-foreground font-normal">
+                        {"{time}"} is replaced with when the alert was sent
+                      </div>
+                    </Label>
+                    <Textarea
+                      id="emergency-message"
+                      value={settings.emergencyMessage}
+                      onChange={(e) => update({ emergencyMessage: e.target.value })}
+                      rows={2}
+                      className="text-sm"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="editor-name" className="space-y-1">
+                <div className="font-medium">Your name</div>
+                <div className="text-xs text-muted-foreground font-normal">
+                  Shown next to mapping changes made on this device
+                </div>
+              </Label>
+              <Input
+                id="editor-name"
+                value={settings.editorName}
+                onChange={(e) => update({ editorName: e.target.value.slice(0, 60) })}
+                placeholder="e.g. Sam (daughter)"
+                className="text-sm"
+              />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="contacts">
+            <ContactsPanel contacts={contacts} />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,216 @@
+import { useRef, useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Mic, Square, Upload, Play, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  detectSpeechRange,
+  encodeWav,
+  normalizeSamples,
+  toMono,
+  trimSamples,
+  type TrimRange
+} from "@/engine/audioClip";
+import { decodeAudio, playAudioBlob, stopAudio } from "@/utils/ttsEngines";
+import { deleteClip, getClip, saveClip } from "@/utils/voiceBank";
+
+interface VoiceClipEditorProps {
+  phrase: string;
+  hasClip: boolean;
+  // Called after a clip is saved or deleted
+  onChange: () => void;
+}
+
+interface Draft {
+  samples: Float32Array;
+  sampleRate: number;
+  range: TrimRange;
+}
+
+// Record or upload the phrase in the user's own voice, trim it and save it to the voice bank
+export const VoiceClipEditor = ({ phrase, hasClip, onChange }: VoiceClipEditorProps) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Release the microphone if the editor closes mid-recording
+  useEffect(() => () => recorderRef.current?.stream.getTracks().forEach(track => track.stop()), []);
+
+  const loadDraft = async (audio: Blob) => {
+    try {
+      const { channels, sampleRate } = await decodeAudio(audio);
+      const samples = toMono(channels);
+      setDraft({ samples, sampleRate, range: detectSpeechRange(samples, sampleRate) });
+    } catch (error) {
+      console.error("Failed to decode voice clip:", error);
+      toast({
+        title: "Unsupported Audio",
+        description: "This recording could not be read",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        loadDraft(new Blob(chunks, { type: recorder.mimeType }));
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsRecording(true);
+    } catch (error) {
+      console.error("Microphone access failed:", error);
+      toast({
+        title: "Microphone Unavailable",
+        description: "Allow microphone access to record a clip",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    setIsRecording(false);
+  };
+
+  // Trimmed, normalized WAV of the current draft
+  const renderDraft = (current: Draft) => {
+    const samples = normalizeSamples(trimSamples(current.samples, current.sampleRate, current.range));
+    return {
+      audio: new Blob([encodeWav(samples, current.sampleRate)], { type: "audio/wav" }),
+      duration: samples.length / current.sampleRate
+    };
+  };
+
+  const play = (audio: Blob) => {
+    stopAudio();
+    playAudioBlob(audio, 1, () => {});
+  };
+
+  const handlePlaySaved = async () => {
+    const clip = await getClip(phrase);
+    if (clip) play(clip.audio);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const { audio, duration } = renderDraft(draft);
+    await saveClip(phrase, audio, duration);
+    setDraft(null);
+    onChange();
+    toast({
+      title: "Voice Clip Saved",
+      description: `"${phrase}" will play in your recorded voice`
+    });
+  };
+
+  const handleDelete = async () => {
+    await deleteClip(phrase);
+    onChange();
+  };
+
+  const duration = draft ? draft.samples.length / draft.sampleRate : 0;
+  const setRange = (range: Partial<TrimRange>) => {
+    if (draft) setDraft({ ...draft, range: { ...draft.range, ...range } });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border bg-muted/30 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {isRecording ? (
+          <Button size="sm" variant="destructive" onClick={stopRecording} className="gap-2">
+            <Square className="w-4 h-4" />
+            Stop
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" onClick={startRecording} className="gap-2">
+            <Mic className="w-4 h-4" />
+            Record
+          </Button>
+        )}
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} className="gap-2">
+          <Upload className="w-4 h-4" />
+          Upload
+        </Button>
+        {hasClip && !draft && (
+          <>
+            <Button size="sm" variant="outline" onClick={handlePlaySaved} className="gap-2">
+              <Play className="w-4 h-4" />
+              Play
+            </Button>
+            <Button size="icon" variant="outline" onClick={handleDelete} aria-label="Delete voice clip">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadDraft(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {draft && (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label className="text-xs">Start: {draft.range.start.toFixed(2)}s</Label>
+            <Slider
+              min={0}
+              max={duration}
+              step={0.01}
+              value={[draft.range.start]}
+              onValueChange={([value]) => setRange({ start: Math.min(value, draft.range.end) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs">End: {draft.range.end.toFixed(2)}s of {duration.toFixed(2)}s</Label>
+            <Slider
+              min={0}
+              max={duration}
+              step={0.01}
+              value={[draft.range.end]}
+              onValueChange={([value]) => setRange({ end: Math.max(value, draft.range.start) })}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => play(renderDraft(draft).audio)} className="gap-2">
+              <Play className="w-4 h-4" />
+              Preview
+            </Button>
+            <Button size="sm" onClick={handleSave} className="gap-2">
+              <Save className="w-4 h-4" />
+              Save Clip
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>
+              Discard
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!draft && !isRecording && (
+        <p className="text-xs text-muted-foreground">
+          {hasClip
+            ? "This phrase plays in the recorded voice instead of synthesized speech."
+            : "Silence at the start and end is trimmed and the volume is evened out."}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import type { GestureMapping } from '@/engine/phraseBoard';
+
+// Starting vocabulary for a new session; "Needs" and "Feelings" open sub-boards
+export const DEFAULT_GESTURE_MAPPING: GestureMapping = {
+  singleBlink: 'Hello',
+  doubleBlink: 'Yes',
+  tripleBlink: 'No',
+  longBlink: 'Thank you',
+  leftWink: 'Please wait',
+  rightWink: 'Come here',
+  singleBlink_lookLeft: 'I need help',
+  singleBlink_lookRight: "I'm okay",
+  doubleBlink_lookUp: {
+    label: 'Needs',
+    mapping: {
+      singleBlink: 'Water please',
+      doubleBlink: "I'm hungry",
+      tripleBlink: 'I need the bathroom',
+      leftWink: "I'm in pain",
+      rightWink: 'Please move me'
+    }
+  },
+  doubleBlink_lookDown: {
+    label: 'Feelings',
+    mapping: {
+      singleBlink: "I'm happy",
+      doubleBlink: "I'm tired",
+      tripleBlink: "I'm scared",
+      leftWink: "I'm uncomfortable",
+      rightWink: 'I feel better'
+    }
+  }
+};
@@ -0,0 +1,44 @@
+// Common English words, most frequent first, used to seed word prediction
+// before the user has any history. Everyday care and comfort words are
+// included alongside general frequency so they are offered early.
+export const ENGLISH_WORDS: string[] = `
+the i you to a and it is that of in me my what for this not be have do
+are on with can we was no yes your so just but all he she they at like get
+know if go want need please there here now how up out about one will would
+don't it's i'm could time help thank thanks okay ok good right think see
+come well back some then when from them him her his our us more very really
+feel feeling tired pain water hello hi bye sorry love today tomorrow night
+morning home bed bathroom toilet hungry thirsty cold hot hurts doctor nurse
+medicine sleep eat drink food family mom dad wife husband son daughter
+friend tv music light turn off on open close window door phone call
+where why who which much many too also again still only any something
+nothing everything anything someone everyone talk say said tell ask
+make made take took give gave put let look looking watch wait stop start
+move sit stand lie down over under left little big better best worse
+bad fine great nice happy sad scared worried angry bored comfortable
+uncomfortable itchy sick dizzy breathe breathing cough chest head hand
+arm leg foot back stomach throat mouth eyes nose ear neck shoulder
+blanket pillow chair wheelchair glasses hearing aid remote volume louder
+quieter slower faster later soon minute minutes hour hours day days week
+after before first last next same other another way thing things place
+people man woman child children life world work school house room car
+year years old new long short high low early late hard easy young
+been being has had did does doing done going gone went coming came
+get got getting go goes let's that's what's there's can't won't didn't
+doesn't isn't wasn't should must might may shall
+a an as by or because than while until since though
+yes no maybe please thank you welcome
+am is are was were be
+its their there they're your you're
+mine yours his hers ours theirs
+myself yourself himself herself
+me him her them us
+kiss hug miss proud care careful
+listen read book paper news game play
+cup tea coffee juice milk straw ice snack breakfast lunch dinner
+shower wash brush teeth hair shave dressed clothes shoes socks
+warm cool air fan heater temperature
+sit up lie down roll over
+suction position reposition tube feed feeding
+yes please no thanks not now
+`.trim().split(/\s+/).filter((word, index, words) => words.indexOf(word) === index);
@@ -0,0 +1,168 @@
+import type { PhrasePack } from '@/engine/phrasePack';
+import { DEFAULT_GESTURE_MAPPING } from '@/data/defaultMapping';
+
+// Packs bundled with the app. All share the same gestures and board layout so
+// switching language keeps the user's muscle memory.
+export const BUILT_IN_PHRASE_PACKS: PhrasePack[] = [
+  {
+    id: 'en',
+    name: 'English',
+    language: 'en-US',
+    mapping: DEFAULT_GESTURE_MAPPING
+  },
+  {
+    id: 'es',
+    name: 'Español',
+    language: 'es-ES',
+    mapping: {
+      singleBlink: 'Hola',
+      doubleBlink: 'Sí',
+      tripleBlink: 'No',
+      longBlink: 'Gracias',
+      leftWink: 'Espera, por favor',
+      rightWink: 'Ven aquí',
+      singleBlink_lookLeft: 'Necesito ayuda',
+      singleBlink_lookRight: 'Estoy bien',
+      doubleBlink_lookUp: {
+        label: 'Necesidades',
+        mapping: {
+          singleBlink: 'Agua, por favor',
+          doubleBlink: 'Tengo hambre',
+          tripleBlink: 'Necesito ir al baño',
+          leftWink: 'Tengo dolor',
+          rightWink: 'Por favor, muéveme'
+        }
+      },
+      doubleBlink_lookDown: {
+        label: 'Sentimientos',
+        mapping: {
+          singleBlink: 'Estoy feliz',
+          doubleBlink: 'Estoy cansado',
+          tripleBlink: 'Tengo miedo',
+          leftWink: 'Estoy incómodo',
+          rightWink: 'Me siento mejor'
+        }
+      }
+    },
+    gestureLabels: {
+      singleBlink: 'Parpadeo simple',
+      doubleBlink: 'Parpadeo doble',
+      tripleBlink: 'Parpadeo triple',
+      longBlink: 'Parpadeo largo',
+      leftWink: 'Guiño izquierdo',
+      rightWink: 'Guiño derecho',
+      lookUp: 'Mirar arriba',
+      lookDown: 'Mirar abajo',
+      lookLeft: 'Mirar a la izquierda',
+      lookRight: 'Mirar a la derecha',
+      singleBlink_lookLeft: 'Parpadeo + izquierda',
+      singleBlink_lookRight: 'Parpadeo + derecha',
+      doubleBlink_lookUp: 'Parpadeo doble + arriba',
+      doubleBlink_lookDown: 'Parpadeo doble + abajo'
+    }
+  },
+  {
+    id: 'hi',
+    name: 'हिन्दी',
+    language: 'hi-IN',
+    mapping: {
+      singleBlink: 'नमस्ते',
+      doubleBlink: 'हाँ',
+      tripleBlink: 'नहीं',
+      longBlink: 'धन्यवाद',
+      leftWink: 'कृपया रुकिए',
+      rightWink: 'यहाँ आइए',
+      singleBlink_lookLeft: 'मुझे मदद चाहिए',
+      singleBlink_lookRight: 'मैं ठीक हूँ',
+      doubleBlink_lookUp: {
+        label: 'ज़रूरतें',
+        mapping: {
+          singleBlink: 'पानी दीजिए',
+          doubleBlink: 'मुझे भूख लगी है',
+          tripleBlink: 'मुझे शौचालय जाना है',
+          leftWink: 'मुझे दर्द हो रहा है',
+          rightWink: 'कृपया मुझे हिलाइए'
+        }
+      },
+      doubleBlink_lookDown: {
+        label: 'भावनाएँ',
+        mapping: {
+          singleBlink: 'मैं खुश हूँ',
+          doubleBlink: 'मैं थका हुआ हूँ',
+          tripleBlink: 'मुझे डर लग रहा है',
+          leftWink: 'मुझे असहज लग रहा है',
+          rightWink: 'मैं बेहतर महसूस कर रहा हूँ'
+        }
+      }
+    },
+    gestureLabels: {
+      singleBlink: 'एक पलक',
+      doubleBlink: 'दो पलक',
+      tripleBlink: 'तीन पलक',
+      longBlink: 'लंबी पलक',
+      leftWink: 'बाईं आँख मारना',
+      rightWink: 'दाईं आँख मारना',
+      lookUp: 'ऊपर देखें',
+      lookDown: 'नीचे देखें',
+      lookLeft: 'बाएँ देखें',
+      lookRight: 'दाएँ देखें',
+      singleBlink_lookLeft: 'पलक + बाएँ',
+      singleBlink_lookRight: 'पलक + दाएँ',
+      doubleBlink_lookUp: 'दो पलक + ऊपर',
+      doubleBlink_lookDown: 'दो पलक + नीचे'
+    }
+  },
+  {
+    id: 'fr',
+    name: 'Français',
+    language: 'fr-FR',
+    mapping: {
+      singleBlink: 'Bonjour',
+      doubleBlink: 'Oui',
+      tripleBlink: 'Non',
+      longBlink: 'Merci',
+      leftWink: 'Attendez, s’il vous plaît',
+      rightWink: 'Venez ici',
+      singleBlink_lookLeft: 'J’ai besoin d’aide',
+      singleBlink_lookRight: 'Je vais bien',
+      doubleBlink_lookUp: {
+        label: 'Besoins',
+        mapping: {
+          singleBlink: 'De l’eau, s’il vous plaît',
+          doubleBlink: 'J’ai faim',
+          tripleBlink: 'J’ai besoin d’aller aux toilettes',
+          leftWink: 'J’ai mal',
+          rightWink: 'Pouvez-vous me déplacer'
+        }
+      },
+      doubleBlink_lookDown: {
+        label: 'Émotions',
+        mapping: {
+          singleBlink: 'Je suis content',
+          doubleBlink: 'Je suis fatigué',
+          tripleBlink: 'J’ai peur',
+          leftWink: 'Je suis mal à l’aise',
+          rightWink: 'Je me sens mieux'
+        }
+      }
+    },
+    gestureLabels: {
+      singleBlink: 'Clignement simple',
+      doubleBlink: 'Double clignement',
+      tripleBlink: 'Triple clignement',
+      longBlink: 'Clignement long',
+      leftWink: 'Clin d’œil gauche',
+      rightWink: 'Clin d’œil droit',
+      lookUp: 'Regarder en haut',
+      lookDown: 'Regarder en bas',
+      lookLeft: 'Regarder à gauche',
+      lookRight: 'Regarder à droite',
+      singleBlink_lookLeft: 'Clignement + gauche',
+      singleBlink_lookRight: 'Clignement + droite',
+      doubleBlink_lookUp: 'Double clignement + haut',
+      doubleBlink_lookDown: 'Double clignement + bas'
+    }
+  }
+];
+
+export const DEFAULT_PHRASE_PACK_ID = 'en';
@@ -0,0 +1,35 @@
+// Typical open-eye EAR, used when no personal baseline has been calibrated
+const DEFAULT_OPEN_EAR = 0.3;
+// Smoothing factor per open-eye frame; roughly a 7 second time constant at 30 fps
+const BASELINE_ALPHA = 0.005;
+// How far the adapted threshold may drift from the starting threshold
+const MAX_DRIFT = 0.3;
+
+export interface AdaptiveThresholdState {
+  baseline: number;
+  threshold: number;
+}
+
+// Follows slow changes in the open-eye EAR (fatigue, lighting) with a rolling
+// average and scales the closure threshold with it, keeping the threshold
+// within bounds of the calibrated starting point.
+export function createAdaptiveThreshold(initialThreshold: number, initialBaseline?: number) {
+  const ratio = initialThreshold / (initialBaseline ?? DEFAULT_OPEN_EAR);
+  const lower = initialThreshold * (1 - MAX_DRIFT);
+  const upper = initialThreshold * (1 + MAX_DRIFT);
+  let baseline = initialBaseline ?? DEFAULT_OPEN_EAR;
+
+  // Feed only frames where the eyes are known to be open
+  function update(openEAR: number) {
+    baseline += BASELINE_ALPHA * (openEAR - baseline);
+  }
+
+  function getState(): AdaptiveThresholdState {
+    const threshold = Math.max(lower, Math.min(upper, baseline * ratio));
+    return { baseline, threshold };
+  }
+
+  return { update, getState };
+}
+
+export type AdaptiveThreshold = ReturnType<typeof createAdaptiveThreshold>;
@@ -0,0 +1,85 @@
+// Processing for recorded phrase clips: mono PCM samples in, trimmed and
+// normalized 16-bit WAV out.
+
+// Samples quieter than this (relative to full scale) count as silence
+const SILENCE_LEVEL = 0.02;
+// Kept around detected speech so soft word edges are not clipped
+const SILENCE_PADDING_S = 0.1;
+export const NORMALIZED_PEAK = 0.9;
+
+export interface TrimRange {
+  // Seconds from the start of the clip
+  start: number;
+  end: number;
+}
+
+// Average the channels of a decoded buffer into one
+export function toMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+}
+
+// Range between the first and last non-silent sample, padded slightly
+export function detectSpeechRange(samples: Float32Array, sampleRate: number): TrimRange {
+  const duration = samples.length / sampleRate;
+  let first = -1;
+  let last = -1;
+  for (let i = 0; i < samples.length; i++) {
+    if (Math.abs(samples[i]) >= SILENCE_LEVEL) {
+      if (first < 0) first = i;
+      last = i;
+    }
+  }
+  if (first < 0) return { start: 0, end: duration };
+  return {
+    start: Math.max(0, first / sampleRate - SILENCE_PADDING_S),
+    end: Math.min(duration, last / sampleRate + SILENCE_PADDING_S)
+  };
+}
+
+export function trimSamples(samples: Float32Array, sampleRate: number, range: TrimRange): Float32Array {
+  const start = Math.max(0, Math.floor(range.start * sampleRate));
+  const end = Math.min(samples.length, Math.ceil(range.end * sampleRate));
+  return samples.slice(start, Math.max(start, end));
+}
+
+// Scale so the loudest sample reaches `peak`, so every clip plays at a similar level
+export function normalizeSamples(samples: Float32Array, peak = NORMALIZED_PEAK): Float32Array {
+  let max = 0;
+  for (const sample of samples) max = Math.max(max, Math.abs(sample));
+  if (max === 0) return samples;
+  const gain = peak / max;
+  return samples.map(sample => sample * gain);
+}
+
+export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return buffer;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { createBlinkTracker, type BlinkEvent } from './blinkStateMachine';
+
+const thresholds = { close: 0.2, open: 0.25 };
+const OPEN = 0.3;
+const CLOSED = 0.1;
+
+// Eye aspect ratio of each eye in one frame
+type Frame = [left: number, right: number];
+
+// Feed one frame per entry, 10 ms apart from `start`; returns the events reported
+function play(frames: Frame[], tracker = createBlinkTracker(), start = 0) {
+  const events: BlinkEvent[] = [];
+  frames.forEach(([left, right], i) => {
+    const event = tracker.update({ left, right }, start + i * 10, thresholds);
+    if (event) events.push(event);
+  });
+  return events;
+}
+
+const repeat = (frame: Frame, count: number): Frame[] => Array.from({ length: count }, () => frame);
+
+describe('createBlinkTracker', () => {
+  it('reports a blink once both eyes have closed and reopened', () => {
+    const events = play([
+      ...repeat([OPEN, OPEN], 3),
+      ...repeat([CLOSED, CLOSED], 10),
+      ...repeat([OPEN, OPEN], 3)
+    ]);
+    expect(events).toEqual([{ eye: 'both', start: 30, end: 130, duration: 100 }]);
+  });
+
+  it('ignores closures too short to be a blink', () => {
+    const events = play([
+      [OPEN, OPEN],
+      [CLOSED, CLOSED],
+      [CLOSED, CLOSED],
+      [OPEN, OPEN],
+      [OPEN, OPEN]
+    ]);
+    expect(events).toEqual([]);
+  });
+
+  it('does not reopen an eye that only rises into the band between the thresholds', () => {
+    const tracker = createBlinkTracker();
+    const events = play([
+      [OPEN, OPEN],
+      ...repeat([CLOSED, CLOSED], 5),
+      ...repeat([0.22, 0.22], 5)
+    ], tracker);
+    expect(events).toEqual([]);
+    expect(tracker.getPhase()).toBe('opening');
+  });
+
+  it('ends the closure when the lid started to rise, not when it fully opened', () => {
+    const events = play([
+      [OPEN, OPEN],
+      ...repeat([CLOSED, CLOSED], 5),
+      ...repeat([0.22, 0.22], 3),
+      [OPEN, OPEN]
+    ]);
+    expect(events).toEqual([{ eye: 'both', start: 10, end: 60, duration: 50 }]);
+  });
+
+  it('reports a wink when only one eye closed and the other stayed clearly open', () => {
+    const events = play([
+      [OPEN, OPEN],
+      ...repeat([CLOSED, OPEN], 6),
+      [OPEN, OPEN]
+    ]);
+    expect(events).toEqual([{ eye: 'left', start: 10, end: 70, duration: 60 }]);
+  });
+
+  it('drops a one-sided closure when the other eye also narrowed', () => {
+    const events = play([
+      [OPEN, OPEN],
+      ...repeat([0.15, 0.21], 6),
+      [OPEN, OPEN]
+    ]);
+    expect(events).toEqual([]);
+  });
+
+  it('forgets a closure in progress on reset', () => {
+    const tracker = createBlinkTracker();
+    play([[OPEN, OPEN], ...repeat([CLOSED, CLOSED], 5)], tracker);
+    tracker.reset();
+    expect(tracker.getPhase()).toBe('open');
+    expect(play(repeat([OPEN, OPEN], 3), tracker, 100)).toEqual([]);
+  });
+});
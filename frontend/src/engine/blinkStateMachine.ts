@@ -0,0 +1,171 @@
+import type { EyeEARs } from '@/utils/earUtils';
+
+export type EyePhase = 'open' | 'closing' | 'closed' | 'opening';
+
+// An eye counts as closed below `close` and open again only above `open`;
+// the band in between absorbs frame-to-frame jitter around a single threshold.
+export interface EyeThresholds {
+  close: number;
+  open: number;
+}
+
+// Which eye closed, from the user's own point of view (not the mirrored preview)
+export type BlinkEye = 'both' | 'left' | 'right';
+
+export interface BlinkEvent {
+  eye: BlinkEye;
+  start: number;
+  end: number;
+  duration: number;
+}
+
+interface EyeClosure {
+  start: number;
+  end: number;
+}
+
+// Closures shorter than this are treated as landmark noise (milliseconds)
+const MIN_CLOSURE_MS = 30;
+
+// For a wink the open eye's lowest EAR must be at least this many times the
+// closed eye's, so a blink where one eye narrowly missed the threshold is not
+// mistaken for a wink.
+const WINK_ASYMMETRY_RATIO = 1.5;
+
+function createEyeStateMachine() {
+  let phase: EyePhase = 'open';
+  let closedAt = 0;
+  let reopenedAt = 0;
+
+  // Advances the eye by one frame and returns the closure that just finished, if any
+  function update(ear: number, now: number, thresholds: EyeThresholds): EyeClosure | null {
+    switch (phase) {
+      case 'open':
+      case 'closing':
+        if (ear < thresholds.close) {
+          phase = 'closed';
+          closedAt = now;
+        } else {
+          phase = ear < thresholds.open ? 'closing' : 'open';
+        }
+        return null;
+
+      case 'closed':
+        if (ear >= thresholds.open) {
+          phase = 'open';
+          return finishClosure(now);
+        }
+        if (ear >= thresholds.close) {
+          phase = 'opening';
+          reopenedAt = now;
+        }
+        return null;
+
+      case 'opening':
+        if (ear >= thresholds.open) {
+          phase = 'open';
+          return finishClosure(reopenedAt);
+        }
+        if (ear < thresholds.close) {
+          // The lid dropped again before fully opening: same closure continues
+          phase = 'closed';
+        }
+        return null;
+    }
+  }
+
+  function finishClosure(end: number): EyeClosure | null {
+    return end - closedAt >= MIN_CLOSURE_MS ? { start: closedAt, end } : null;
+  }
+
+  function reset() {
+    phase = 'open';
+  }
+
+  return {
+    update,
+    reset,
+    getPhase: () => phase
+  };
+}
+
+// Tracks both eyes and reports a blink once both eyes have closed and reopened,
+// or a wink when only one eye closed while the other stayed open. Closures
+// from each eye are held until both are open so they can be paired.
+export function createBlinkTracker() {
+  const left = createEyeStateMachine();
+  const right = createEyeStateMachine();
+  let pendingLeft: EyeClosure[] = [];
+  let pendingRight: EyeClosure[] = [];
+  // Lowest EAR per eye since both eyes were last idle
+  let minEARs: EyeEARs = { left: Infinity, right: Infinity };
+
+  function update(ears: EyeEARs, now: number, thresholds: EyeThresholds): BlinkEvent | null {
+    const leftClosure = left.update(ears.left, now, thresholds);
+    const rightClosure = right.update(ears.right, now, thresholds);
+    if (leftClosure) pendingLeft.push(leftClosure);
+    if (rightClosure) pendingRight.push(rightClosure);
+
+    minEARs = {
+      left: Math.min(minEARs.left, ears.left),
+      right: Math.min(minEARs.right, ears.right)
+    };
+
+    const hasPending = pendingLeft.length > 0 || pendingRight.length > 0;
+    if (!isOpen()) return null;
+    if (!hasPending) {
+      if (getPhase() === 'open') minEARs = { ...ears };
+      return null;
+    }
+
+    let event: BlinkEvent | null = null;
+    if (pendingLeft.length > 0 && pendingRight.length > 0) {
+      event = mergeClosures('both', [...pendingLeft, ...pendingRight]);
+    } else if (pendingLeft.length > 0 && minEARs.right >= minEARs.left * WINK_ASYMMETRY_RATIO) {
+      event = mergeClosures('left', pendingLeft);
+    } else if (pendingRight.length > 0 && minEARs.left >= minEARs.right * WINK_ASYMMETRY_RATIO) {
+      event = mergeClosures('right', pendingRight);
+    }
+    // Anything else was a one-sided closure that was not clearly a wink
+
+    pendingLeft = [];
+    pendingRight = [];
+    minEARs = { ...ears };
+    return event;
+  }
+
+  // Combined phase: closed if either eye is closed, open only when both are
+  function getPhase(): EyePhase {
+    const phases = [left.getPhase(), right.getPhase()];
+    if (phases.includes('closed')) return 'closed';
+    if (phases.includes('opening')) return 'opening';
+    if (phases.includes('closing')) return 'closing';
+    return 'open';
+  }
+
+  function isOpen() {
+    return getPhase() === 'open' || getPhase() === 'closing';
+  }
+
+  function reset() {
+    left.reset();
+    right.reset();
+    pendingLeft = [];
+    pendingRight = [];
+    minEARs = { left: Infinity, right: Infinity };
+  }
+
+  return {
+    update,
+    reset,
+    getPhase
+  };
+}
+
+function mergeClosures(eye: BlinkEye, closures: EyeClosure[]): BlinkEvent {
+  const start = Math.min(...closures.map(c => c.start));
+  const end = Math.max(...closures.map(c => c.end));
+  return { eye, start, end, duration: end - start };
+}
+
+export type BlinkTracker = ReturnType<typeof createBlinkTracker>;
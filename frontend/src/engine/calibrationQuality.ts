@@ -0,0 +1,41 @@
+import type { CalibrationRecord } from '@/utils/calibrationStorage';
+
+export interface CalibrationQuality {
+  // 0-100 combined score
+  score: number;
+  // Mean distance between gaze predictions and validation targets, in pixels
+  gazeError: number;
+  // 0-100, relative to half the screen diagonal
+  gazeAccuracy: number;
+  // Fraction of prompted blinks the detector picked up, 0-1
+  blinkHitRate: number;
+  measuredAt: number;
+}
+
+export type QualityLevel = 'good' | 'fair' | 'poor';
+export type CalibrationStatus = 'missing' | 'stale' | 'weak' | 'ok';
+
+const GAZE_WEIGHT = 0.6;
+const BLINK_WEIGHT = 0.4;
+const GOOD_SCORE = 70;
+const FAIR_SCORE = 40;
+// Lighting, seating and camera position drift; recalibrate after a week
+const STALE_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function scoreCalibration(gazeAccuracy: number, gazeError: number, blinkHitRate: number): CalibrationQuality {
+  const score = Math.round(gazeAccuracy * GAZE_WEIGHT + blinkHitRate * 100 * BLINK_WEIGHT);
+  return { score, gazeError, gazeAccuracy, blinkHitRate, measuredAt: Date.now() };
+}
+
+export function getQualityLevel(score: number): QualityLevel {
+  if (score >= GOOD_SCORE) return 'good';
+  if (score >= FAIR_SCORE) return 'fair';
+  return 'poor';
+}
+
+export function getCalibrationStatus(record: CalibrationRecord | null, now = Date.now()): CalibrationStatus {
+  if (!record?.quality) return 'missing';
+  if (now - record.quality.measuredAt > STALE_AFTER_MS) return 'stale';
+  if (getQualityLevel(record.quality.score) === 'poor') return 'weak';
+  return 'ok';
+}
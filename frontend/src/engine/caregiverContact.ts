@@ -0,0 +1,41 @@
+// Caregiver contacts as the backend stores them, per sid
+
+// emergency: the emergency gesture; urgent: urgent phrases; info: routine updates
+export const ALERT_LEVELS = ['emergency', 'urgent', 'info'] as const;
+export type AlertLevel = (typeof ALERT_LEVELS)[number];
+
+export interface QuietHours {
+  // Local "HH:MM"; the range may cross midnight. Emergencies ignore quiet hours.
+  start: string;
+  end: string;
+  timezone: string;
+}
+
+export interface CaregiverContact {
+  // Assigned by the backend when the contact is first saved
+  id?: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  relationship: string | null;
+  alertLevels: AlertLevel[];
+  quietHours: QuietHours | null;
+  // Set by the backend once the contact typed back the code texted to them;
+  // unverified numbers get no alerts
+  verified?: boolean;
+}
+
+export function createContact(): CaregiverContact {
+  return {
+    name: '',
+    phone: '',
+    email: null,
+    relationship: null,
+    alertLevels: ['emergency'],
+    quietHours: null
+  };
+}
+
+export function defaultQuietHours(): QuietHours {
+  return { start: '22:00', end: '07:00', timezone: Intl.DateTimeFormat().resolvedOptions().timeZone };
+}
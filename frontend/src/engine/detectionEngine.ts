@@ -0,0 +1,446 @@
+import { calculateEAR, calculateEyeEARs, type EyeEARs } from '@/utils/earUtils';
+import {
+  getGazeConfidence,
+  getGazeDirection,
+  setCalibrationData,
+  startGazeTracking,
+  stopGazeTracking,
+  type GazeDirection,
+  type GazeSource
+} from '@/utils/gazeUtils';
+import { loadCalibration } from '@/utils/calibrationStorage';
+import { loadFaceDetector, type FaceDetector, type FaceKeypoint } from './faceDetector';
+import { createBlinkTracker, type BlinkEvent, type EyePhase, type EyeThresholds } from './blinkStateMachine';
+import { createAdaptiveThreshold, type AdaptiveThreshold } from './adaptiveThreshold';
+import { estimateIrisGaze } from './irisGaze';
+import { compoundGestureKey, GAZE_LEAD_MS, heldGazeDirection, type GazeSample } from './gazeHold';
+import { defineHoldGesture, definitionsForMapping } from './gestureGrammar';
+import { createGestureMatcher, type GestureMatcher } from './gestureMatcher';
+import { createDwellTracker, DEFAULT_DWELL_COOLDOWN_MS, DEFAULT_DWELL_MS, type DwellState } from './gazeDwell';
+
+export const DEFAULT_BLINK_THRESHOLD = 0.2;
+export const DEFAULT_BLINK_HYSTERESIS = 0.04;
+export const DEFAULT_COOLDOWN_MS = 1000;
+
+export interface DetectionEngineOptions {
+  // Resolves the video element to read frames from; it may change between renders
+  getVideo: () => HTMLVideoElement | null;
+  mapping?: Record<string, string>;
+  blinkThreshold?: number;
+  // Extra EAR above the threshold required before an eye counts as open again
+  blinkHysteresis?: number;
+  // Let the threshold follow the rolling open-eye EAR during the session
+  adaptiveThreshold?: boolean;
+  // Calibrated resting-open EAR the adaptive threshold starts from
+  openBaseline?: number;
+  cooldownMs?: number;
+  trackGaze?: boolean;
+  gazeSource?: GazeSource;
+  // Holding the gaze in a mapped direction (lookUp, lookLeft...) fires it without blinking
+  dwellGestures?: boolean;
+  dwellMs?: number;
+  dwellCooldownMs?: number;
+  // Held gesture that raises an emergency alert instead of any mapped phrase
+  emergencyGesture?: string | null;
+  emergencyHoldMs?: number;
+  onEmergency?: () => void;
+  onBlink?: (blink: BlinkEvent) => void;
+  onFrame?: (result: FrameResult) => void;
+  onGesture?: (gesture: string, phrase: string) => void;
+}
+
+export type DetectionEngineConfig = Partial<Omit<DetectionEngineOptions, 'getVideo'>>;
+
+export interface FrameResult {
+  ear: number;
+  ears: EyeEARs | null;
+  baseline: number;
+  threshold: number;
+  phase: EyePhase;
+  gazeDirection: GazeDirection;
+  gazeConfidence: number;
+  dwell: DwellState | null;
+  gesture: string | null;
+}
+
+export interface DetectionEngine {
+  init(): Promise<void>;
+  configure(config: DetectionEngineConfig): void;
+  startCamera(): Promise<boolean>;
+  stopCamera(): void;
+  start(): void;
+  stop(): void;
+  reset(): void;
+  isRunning(): boolean;
+  processLandmarks(landmarks: FaceKeypoint[], now: number): FrameResult;
+  testDetection(): Promise<number | null>;
+  dispose(): void;
+}
+
+export function createDetectionEngine(options: DetectionEngineOptions): DetectionEngine {
+  const { getVideo } = options;
+  let config: DetectionEngineConfig = {
+    mapping: {},
+    blinkThreshold: DEFAULT_BLINK_THRESHOLD,
+    blinkHysteresis: DEFAULT_BLINK_HYSTERESIS,
+    adaptiveThreshold: true,
+    cooldownMs: DEFAULT_COOLDOWN_MS,
+    trackGaze: false,
+    gazeSource: 'webgazer',
+    dwellGestures: false,
+    dwellMs: DEFAULT_DWELL_MS,
+    dwellCooldownMs: DEFAULT_DWELL_COOLDOWN_MS,
+    ...options
+  };
+
+  let detector: FaceDetector | null = null;
+  let animationId: number | null = null;
+  let frameCount = 0;
+  const blinkTracker = createBlinkTracker();
+  const dwellTracker = createDwellTracker();
+  let blinkEvents: BlinkEvent[] = [];
+  let gazeSamples: GazeSample[] = [];
+  let lastGestureTime = 0;
+  let cameraActive = false;
+  let adaptive: AdaptiveThreshold = createAdaptive();
+  let matcher: GestureMatcher = createMatcher();
+  let emergencyMatcher: GestureMatcher | null = createEmergencyMatcher();
+
+  function createAdaptive() {
+    return createAdaptiveThreshold(config.blinkThreshold ?? DEFAULT_BLINK_THRESHOLD, config.openBaseline);
+  }
+
+  // Built-in blink patterns plus custom patterns used as mapping keys
+  function createMatcher() {
+    return createGestureMatcher(definitionsForMapping(config.mapping ?? {}));
+  }
+
+  function createEmergencyMatcher() {
+    if (!config.emergencyGesture || !config.emergencyHoldMs) return null;
+    try {
+      return createGestureMatcher([defineHoldGesture(config.emergencyGesture, config.emergencyHoldMs)]);
+    } catch (error) {
+      console.error('Invalid emergency gesture:', config.emergencyGesture, error);
+      return null;
+    }
+  }
+
+  function loadGazeCalibration() {
+    const calibration = loadCalibration();
+    if (calibration?.centerX !== undefined && calibration.centerY !== undefined) {
+      setCalibrationData(
+        calibration.centerX,
+        calibration.centerY,
+        calibration.gazeThresholds ?? calibration.threshold
+      );
+    }
+  }
+
+  async function init() {
+    detector = await loadFaceDetector();
+
+    if (config.trackGaze) {
+      loadGazeCalibration();
+    }
+    console.log('Initialization complete!');
+  }
+
+  // The iris estimator reuses the FaceMesh landmarks, so WebGazer only runs for its own source
+  function usesWebGazer(settings: DetectionEngineConfig = config) {
+    return !!settings.trackGaze && settings.gazeSource !== 'iris';
+  }
+
+  function configure(next: DetectionEngineConfig) {
+    const previous = config;
+    config = { ...config, ...next };
+    if (detector && config.trackGaze && !previous.trackGaze) {
+      loadGazeCalibration();
+    }
+    if (cameraActive && usesWebGazer(previous) !== usesWebGazer()) {
+      if (usesWebGazer()) {
+        startGazeTracking().catch(error => console.error('Failed to start gaze tracking:', error));
+      } else {
+        stopGazeTracking();
+      }
+    }
+    // A new starting point invalidates whatever the threshold adapted to
+    if (config.blinkThreshold !== previous.blinkThreshold || config.openBaseline !== previous.openBaseline) {
+      adaptive = createAdaptive();
+    }
+    if (config.mapping !== previous.mapping) {
+      matcher = createMatcher();
+    }
+    if (config.emergencyGesture !== previous.emergencyGesture || config.emergencyHoldMs !== previous.emergencyHoldMs) {
+      emergencyMatcher = createEmergencyMatcher();
+    }
+  }
+
+  // Prefer the compound key for a held gaze, falling back to the bare blink
+  // pattern when that combination is not mapped. Returns the emitted key.
+  function emitGesture(
+    pattern: string,
+    now: number,
+    direction: GazeDirection | null = null,
+    cooldownMs = config.cooldownMs ?? DEFAULT_COOLDOWN_MS
+  ): string | null {
+    if (now - lastGestureTime <= cooldownMs) {
+      console.log('⏳ Pattern in cooldown:', pattern, 'Remaining:', cooldownMs - (now - lastGestureTime) + 'ms');
+      return null;
+    }
+
+    const compound = direction ? compoundGestureKey(pattern, direction) : null;
+    const gesture = compound && config.mapping?.[compound] ? compound : pattern;
+    const phrase = config.mapping?.[gesture];
+    if (!phrase) {
+      console.warn('❌ No phrase found for pattern:', compound ?? pattern, 'Available:', Object.keys(config.mapping ?? {}));
+      return null;
+    }
+
+    console.log('🎉 PATTERN CONFIRMED:', gesture, 'Phrase:', phrase);
+    lastGestureTime = now;
+    config.onGesture?.(gesture, phrase);
+    return gesture;
+  }
+
+  function getThresholds(): EyeThresholds {
+    const close = config.adaptiveThreshold
+      ? adaptive.getState().threshold
+      : config.blinkThreshold ?? DEFAULT_BLINK_THRESHOLD;
+    return { close, open: close + (config.blinkHysteresis ?? DEFAULT_BLINK_HYSTERESIS) };
+  }
+
+  function processLandmarks(landmarks: FaceKeypoint[], now: number): FrameResult {
+    const ears = calculateEyeEARs(landmarks);
+    const ear = ears ? (ears.left + ears.right) / 2 : calculateEAR(landmarks);
+
+    if (ears) {
+      const blink = blinkTracker.update(ears, now, getThresholds());
+      if (blink) {
+        blinkEvents.push(blink);
+        console.log('🟢 BLINK DETECTED! Duration:', Math.round(blink.duration) + 'ms', 'Total blinks:', blinkEvents.length);
+        config.onBlink?.(blink);
+
+        if (typeof navigator !== 'undefined' && navigator.vibrate) {
+          navigator.vibrate(50);
+        }
+      }
+    }
+
+    const phase = blinkTracker.getPhase();
+    if (ears && phase === 'open') {
+      adaptive.update(ear);
+    }
+    const { baseline, threshold } = adaptive.getState();
+    let gazeDirection: GazeDirection = 'center';
+    let gazeConfidence = 0;
+    if (config.trackGaze && config.gazeSource === 'iris') {
+      const estimate = estimateIrisGaze(landmarks);
+      if (estimate) {
+        gazeDirection = estimate.direction;
+        gazeConfidence = estimate.confidence;
+      }
+    } else if (config.trackGaze) {
+      gazeDirection = getGazeDirection();
+      gazeConfidence = getGazeConfidence();
+    }
+
+    if (config.trackGaze && ears && phase === 'open') {
+      gazeSamples.push({ time: now, direction: gazeDirection });
+    }
+    // Keep only what could still fall inside the window of the current or next sequence
+    const keepFrom = (blinkEvents.length > 0 ? blinkEvents[0].start : now) - Math.max(GAZE_LEAD_MS, matcher.settleMs);
+    while (gazeSamples.length > 0 && gazeSamples[0].time < keepFrom) {
+      gazeSamples.shift();
+    }
+
+    let gesture: string | null = null;
+
+    // Only classify once the eyes are open and no further blink can extend the sequence
+    const eyesOpen = phase === 'open' || phase === 'closing';
+    if (eyesOpen && matcher.isSettled(blinkEvents, now) && emergencyMatcher?.match(blinkEvents, gazeSamples, now)) {
+      // Checked first: the held gesture would otherwise also match its short form
+      console.log('🚨 EMERGENCY GESTURE:', config.emergencyGesture);
+      blinkEvents = [];
+      lastGestureTime = now;
+      config.onEmergency?.();
+    } else if (eyesOpen && matcher.isSettled(blinkEvents, now)) {
+      const definition = matcher.match(blinkEvents, gazeSamples, now);
+      // Gestures that spell out their own gaze are not combined with a held direction
+      const hasGazeTokens = definition?.tokens.some(token => token.type === 'gaze');
+      const heldGaze = config.trackGaze && !hasGazeTokens ? heldGazeDirection(gazeSamples, blinkEvents) : null;
+      console.log('🔍 Blink sequence settled:', blinkEvents.map(b => Math.round(b.duration)), '→', definition?.key ?? null, heldGaze ?? '');
+      blinkEvents = [];
+      if (definition) {
+        gesture = emitGesture(definition.key, now, heldGaze);
+      }
+    }
+
+    // Dwell counts while the eyes are open; a blink, or a blink sequence in progress, pauses it
+    let dwell: DwellState | null = null;
+    if (config.trackGaze && config.dwellGestures) {
+      const paused = !ears || phase !== 'open' || blinkEvents.length > 0;
+      const mapped = !!config.mapping?.[gazeDirection];
+      const update = dwellTracker.update(mapped ? gazeDirection : null, now, config.dwellMs ?? DEFAULT_DWELL_MS, paused);
+      dwell = update.state;
+      const dwellCooldownMs = config.dwellCooldownMs ?? DEFAULT_DWELL_COOLDOWN_MS;
+      // A completed dwell waits out the shared cooldown instead of being used up by it
+      if (update.triggered && !gesture && now - lastGestureTime > dwellCooldownMs) {
+        gesture = emitGesture(update.triggered, now, null, dwellCooldownMs);
+        if (gesture) dwellTracker.markFired();
+      }
+    }
+
+    const result = {
+      ear,
+      ears,
+      baseline,
+      threshold: config.adaptiveThreshold ? threshold : getThresholds().close,
+      phase,
+      gazeDirection,
+      gazeConfidence,
+      dwell,
+      gesture
+    };
+    config.onFrame?.(result);
+    return result;
+  }
+
+  async function detectFrame() {
+    const video = getVideo();
+    if (!detector || !video || video.readyState !== 4) return;
+
+    const faces = await detector.estimateFaces(video);
+    frameCount++;
+
+    if (faces.length === 0) {
+      // Losing the face mid-closure must not be read as a long blink
+      blinkTracker.reset();
+      dwellTracker.reset();
+      if (frameCount % 60 === 0) {
+        console.log('No faces detected in frame');
+      }
+      return;
+    }
+
+    const result = processLandmarks(faces[0].keypoints, performance.now());
+    if (frameCount % 15 === 0) {
+      console.log('👁️ EAR value:', result.ear.toFixed(3), 'Threshold:', result.threshold.toFixed(3), 'Baseline:', result.baseline.toFixed(3));
+    }
+  }
+
+  function start() {
+    if (animationId !== null) return;
+    console.log('Starting detection loop with mapping:', Object.keys(config.mapping ?? {}));
+
+    const loop = async () => {
+      try {
+        await detectFrame();
+      } catch (error) {
+        console.error('Detection error:', error);
+      }
+      // stop() may have been called while the frame was being processed
+      if (animationId !== null) {
+        animationId = requestAnimationFrame(loop);
+      }
+    };
+    animationId = requestAnimationFrame(loop);
+  }
+
+  function stop() {
+    if (animationId === null) return;
+    cancelAnimationFrame(animationId);
+    animationId = null;
+    console.log('Detection loop stopped');
+  }
+
+  function reset() {
+    blinkTracker.reset();
+    dwellTracker.reset();
+    blinkEvents = [];
+    gazeSamples = [];
+    lastGestureTime = 0;
+  }
+
+  async function startCamera(): Promise<boolean> {
+    const video = getVideo();
+    if (!video) return false;
+
+    try {
+      console.log('Starting camera for gesture detection...');
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: {
+          width: { ideal: 640 },
+          height: { ideal: 480 },
+          facingMode: 'user'
+        }
+      });
+
+      video.srcObject = stream;
+      await video.play();
+
+      cameraActive = true;
+      if (usesWebGazer()) {
+        startGazeTracking().catch(error => console.error('Failed to start gaze tracking:', error));
+      }
+
+      console.log('Camera started successfully for gesture detection');
+      return true;
+    } catch (error) {
+      console.error('Failed to start camera:', error);
+      return false;
+    }
+  }
+
+  function stopCamera() {
+    const video = getVideo();
+    if (video && video.srcObject) {
+      const stream = video.srcObject as MediaStream;
+      stream.getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+    }
+    if (cameraActive && usesWebGazer()) {
+      stopGazeTracking();
+    }
+    cameraActive = false;
+  }
+
+  async function testDetection(): Promise<number | null> {
+    const video = getVideo();
+    if (!detector || !video) {
+      console.log('Cannot test - detector or video not ready');
+      return null;
+    }
+
+    try {
+      const faces = await detector.estimateFaces(video);
+      console.log('Test result - faces detected:', faces.length);
+      if (faces.length === 0) return null;
+
+      const ear = calculateEAR(faces[0].keypoints);
+      console.log('Test result - EAR value:', ear.toFixed(3));
+      return ear;
+    } catch (error) {
+      console.error('Test detection failed:', error);
+      return null;
+    }
+  }
+
+  function dispose() {
+    stop();
+    stopCamera();
+  }
+
+  return {
+    init,
+    configure,
+    startCamera,
+    stopCamera,
+    start,
+    stop,
+    reset,
+    isRunning: () => animationId !== null,
+    processLandmarks,
+    testDetection,
+    dispose
+  };
+}
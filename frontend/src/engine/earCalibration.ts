@@ -0,0 +1,67 @@
+// Personal blink thresholds learned from a user's resting-open EAR and a few
+// deliberate blinks during calibration.
+export interface EarCalibration {
+  openMean: number;
+  openStd: number;
+  closedMean: number;
+  threshold: number;
+  hysteresis: number;
+}
+
+// Place the threshold this far from the closed level towards the open level
+const THRESHOLD_POSITION = 0.45;
+const HYSTERESIS_FRACTION = 0.15;
+const MIN_HYSTERESIS = 0.01;
+// Below this open/closed separation the samples cannot tell blinks apart
+const MIN_EAR_RANGE = 0.05;
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function standardDeviation(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+}
+
+// EAR level below which a resting-open sample is very unlikely
+function dipLevel(openMean: number, openStd: number): number {
+  return Math.min(openMean - 3 * openStd, openMean * 0.85);
+}
+
+// Split a stream of EAR samples into dips below the open distribution and
+// return the lowest EAR of each dip, one entry per blink.
+export function extractBlinkMinima(samples: number[], openMean: number, openStd: number): number[] {
+  const level = dipLevel(openMean, openStd);
+  const minima: number[] = [];
+  let current: number | null = null;
+
+  for (const ear of samples) {
+    if (ear < level) {
+      current = current === null ? ear : Math.min(current, ear);
+    } else if (current !== null) {
+      minima.push(current);
+      current = null;
+    }
+  }
+  if (current !== null) minima.push(current);
+  return minima;
+}
+
+export function deriveEarCalibration(openSamples: number[], blinkMinima: number[]): EarCalibration | null {
+  if (openSamples.length === 0 || blinkMinima.length === 0) return null;
+
+  const openMean = mean(openSamples);
+  const openStd = standardDeviation(openSamples);
+  const closedMean = mean(blinkMinima);
+  const range = openMean - closedMean;
+  if (range < MIN_EAR_RANGE) return null;
+
+  // Keep the open threshold clear of the normal open-eye jitter
+  const ceiling = openMean - 2 * openStd;
+  const hysteresis = Math.max(MIN_HYSTERESIS, range * HYSTERESIS_FRACTION);
+  const threshold = Math.min(closedMean + range * THRESHOLD_POSITION, ceiling - hysteresis);
+  if (threshold <= closedMean) return null;
+
+  return { openMean, openStd, closedMean, threshold, hysteresis };
+}
@@ -0,0 +1,44 @@
+// Emergency alerts: a held gesture starts a countdown, then a templated
+// message is texted to every caregiver contact.
+
+export const DEFAULT_EMERGENCY_GESTURE = 'longBlink';
+export const DEFAULT_EMERGENCY_HOLD_MS = 3000;
+export const DEFAULT_EMERGENCY_COUNTDOWN_S = 10;
+// `{time}` is replaced with when the alert was sent
+export const DEFAULT_EMERGENCY_MESSAGE = 'EMERGENCY: I need help right away. Sent from Blink Speech at {time}.';
+
+export interface RetryOptions {
+  attempts: number;
+  // Doubled after every failed attempt
+  delayMs: number;
+  // Errors for which trying again cannot help are thrown straight away
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export const DEFAULT_SMS_RETRY: RetryOptions = { attempts: 3, delayMs: 2000 };
+
+// The alert text for `sentAt`. A template without `{time}` still gets the timestamp.
+export function formatAlertMessage(template: string, sentAt: Date): string {
+  const time = sentAt.toLocaleString();
+  return template.includes('{time}') ? template.split('{time}').join(time) : `${template} (${time})`;
+}
+
+// Run `task` until it succeeds or runs out of attempts, backing off between tries
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  { attempts, delayMs, shouldRetry = () => true }: RetryOptions
+): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      lastError = error;
+      if (!shouldRetry(error)) break;
+      if (attempt < attempts - 1) {
+        await new Promise(resolve => setTimeout(resolve, delayMs * 2 ** attempt));
+      }
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,37 @@
+import * as mp from '@tensorflow-models/face-landmarks-detection';
+import * as tf from '@tensorflow/tfjs';
+import '@tensorflow/tfjs-backend-webgl';
+
+export type FaceDetector = mp.FaceLandmarksDetector;
+export type FaceKeypoint = mp.Keypoint;
+
+// The TensorFlow.js backend and the FaceMesh model are expensive to load, so
+// every engine on the page shares a single detector instance.
+let detectorPromise: Promise<FaceDetector> | null = null;
+
+async function createFaceDetector(): Promise<FaceDetector> {
+  console.log('Initializing TensorFlow.js backend...');
+  await tf.setBackend('webgl');
+  await tf.ready();
+  console.log('TensorFlow.js backend ready:', tf.getBackend());
+
+  console.log('Loading MediaPipe model...');
+  const det = await mp.createDetector(mp.SupportedModels.MediaPipeFaceMesh, {
+    runtime: 'tfjs',
+    refineLandmarks: true,
+    maxFaces: 1
+  });
+  console.log('MediaPipe detector created successfully');
+  return det;
+}
+
+export function loadFaceDetector(): Promise<FaceDetector> {
+  if (!detectorPromise) {
+    detectorPromise = createFaceDetector().catch(error => {
+      // Allow a later caller to retry after a failed load
+      detectorPromise = null;
+      throw error;
+    });
+  }
+  return detectorPromise;
+}
@@ -0,0 +1,86 @@
+import { uniformThresholds, type DirectionThresholds } from '@/utils/gazeUtils';
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+// Predictions WebGazer made while the user fixated a calibration target
+export interface GazeCalibrationPoint {
+  name: string;
+  target: ScreenPoint;
+  samples: ScreenPoint[];
+}
+
+export interface GazePointAccuracy {
+  name: string;
+  target: ScreenPoint;
+  sampleCount: number;
+  // Mean distance between predictions and the target, in pixels
+  meanError: number;
+  // 0-100, where 100 means every prediction landed on the target
+  accuracy: number;
+}
+
+export interface GazeCalibrationResult {
+  centerX: number;
+  centerY: number;
+  thresholds: DirectionThresholds;
+  points: GazePointAccuracy[];
+}
+
+const FALLBACK_THRESHOLD = 100;
+const MIN_THRESHOLD = 40;
+// Gaze counts as looking towards a side once it is this fraction of the way
+// from the centre to that side's calibration targets
+const THRESHOLD_FRACTION = 0.5;
+
+function distance(a: ScreenPoint, b: ScreenPoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function centroid(points: ScreenPoint[]): ScreenPoint {
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+  };
+}
+
+// Accuracy relative to half the screen diagonal, as in the WebGazer demo
+export function measureAccuracy(name: string, target: ScreenPoint, samples: ScreenPoint[], screen: ScreenPoint): GazePointAccuracy {
+  const halfDiagonal = Math.hypot(screen.x, screen.y) / 2;
+  if (samples.length === 0) {
+    return { name, target, sampleCount: 0, meanError: halfDiagonal, accuracy: 0 };
+  }
+  const meanError = samples.reduce((sum, s) => sum + distance(s, target), 0) / samples.length;
+  const accuracy = Math.max(0, Math.min(100, 100 - (meanError / halfDiagonal) * 100));
+  return { name, target, sampleCount: samples.length, meanError, accuracy };
+}
+
+export function computeGazeCalibration(points: GazeCalibrationPoint[], screen: ScreenPoint): GazeCalibrationResult {
+  const accuracy = points.map(p => measureAccuracy(p.name, p.target, p.samples, screen));
+  const sampled = points.filter(p => p.samples.length > 0);
+
+  // The learned centre is where predictions land while looking at the middle target
+  const centerTarget = centroid(points.map(p => p.target));
+  const centerPoint = sampled.reduce<GazeCalibrationPoint | null>((closest, p) => (
+    !closest || distance(p.target, centerTarget) < distance(closest.target, centerTarget) ? p : closest
+  ), null);
+  const center = centerPoint ? centroid(centerPoint.samples) : { x: screen.x / 2, y: screen.y / 2 };
+
+  const thresholds = uniformThresholds(FALLBACK_THRESHOLD);
+  const others = sampled.filter(p => p !== centerPoint).map(p => centroid(p.samples));
+
+  const sideThreshold = (offsets: number[]) => {
+    if (offsets.length === 0) return FALLBACK_THRESHOLD;
+    const meanOffset = offsets.reduce((sum, o) => sum + o, 0) / offsets.length;
+    return Math.max(MIN_THRESHOLD, meanOffset * THRESHOLD_FRACTION);
+  };
+
+  thresholds.left = sideThreshold(others.filter(p => p.x < center.x).map(p => center.x - p.x));
+  thresholds.right = sideThreshold(others.filter(p => p.x > center.x).map(p => p.x - center.x));
+  thresholds.up = sideThreshold(others.filter(p => p.y < center.y).map(p => center.y - p.y));
+  thresholds.down = sideThreshold(others.filter(p => p.y > center.y).map(p => p.y - center.y));
+
+  return { centerX: center.x, centerY: center.y, thresholds, points: accuracy };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { createDwellTracker } from './gazeDwell';
+
+const DWELL_MS = 1000;
+
+describe('createDwellTracker', () => {
+  it('triggers once the gaze has rested in one direction for the dwell time', () => {
+    const tracker = createDwellTracker();
+    expect(tracker.update('lookUp', 0, DWELL_MS)).toEqual({ state: { direction: 'lookUp', progress: 0 }, triggered: null });
+    expect(tracker.update('lookUp', 500, DWELL_MS).state?.progress).toBe(0.5);
+    expect(tracker.update('lookUp', 1000, DWELL_MS).triggered).toBe('lookUp');
+  });
+
+  it('starts over when the gaze moves to another direction', () => {
+    const tracker = createDwellTracker();
+    tracker.update('lookUp', 0, DWELL_MS);
+    tracker.update('lookLeft', 800, DWELL_MS);
+    expect(tracker.update('lookLeft', 1000, DWELL_MS)).toEqual({ state: { direction: 'lookLeft', progress: 0.2 }, triggered: null });
+  });
+
+  it('resets when the gaze returns to centre or cannot count', () => {
+    const tracker = createDwellTracker();
+    tracker.update('lookUp', 0, DWELL_MS);
+    expect(tracker.update('center', 500, DWELL_MS).state).toBeNull();
+    expect(tracker.update('lookUp', 600, DWELL_MS).state?.progress).toBe(0);
+
+    tracker.update(null, 700, DWELL_MS);
+    expect(tracker.update('lookUp', 800, DWELL_MS).state?.progress).toBe(0);
+  });
+
+  it('freezes progress during a blink instead of resetting it', () => {
+    const tracker = createDwellTracker();
+    tracker.update('lookUp', 0, DWELL_MS);
+    tracker.update('lookUp', 600, DWELL_MS);
+    // The gaze reads centre while the eyes are closed; that must not count
+    expect(tracker.update('center', 650, DWELL_MS, true)).toEqual({ state: { direction: 'lookUp', progress: 0.65 }, triggered: null });
+    expect(tracker.update('center', 900, DWELL_MS, true).state?.progress).toBe(0.65);
+    // The 300 ms paused are not counted towards the dwell
+    expect(tracker.update('lookUp', 950, DWELL_MS).state?.progress).toBe(0.65);
+    expect(tracker.update('lookUp', 1299, DWELL_MS).triggered).toBeNull();
+    expect(tracker.update('lookUp', 1300, DWELL_MS).triggered).toBe('lookUp');
+  });
+
+  it('shows nothing while paused if no dwell was under way', () => {
+    const tracker = createDwellTracker();
+    expect(tracker.update('lookUp', 0, DWELL_MS, true)).toEqual({ state: null, triggered: null });
+    expect(tracker.update('lookUp', 100, DWELL_MS).state?.progress).toBe(0);
+  });
+
+  it('keeps triggering until marked fired, so a cooldown does not use up the dwell', () => {
+    const tracker = createDwellTracker();
+    tracker.update('lookUp', 0, DWELL_MS);
+    expect(tracker.update('lookUp', 1000, DWELL_MS).triggered).toBe('lookUp');
+    // The caller held the gesture back for a cooldown and did not mark it
+    expect(tracker.update('lookUp', 1500, DWELL_MS).triggered).toBe('lookUp');
+
+    tracker.markFired();
+    expect(tracker.update('lookUp', 1600, DWELL_MS)).toEqual({ state: null, triggered: null });
+    expect(tracker.update('lookUp', 5000, DWELL_MS).triggered).toBeNull();
+  });
+
+  it('needs the gaze to leave the direction before firing again', () => {
+    const tracker = createDwellTracker();
+    tracker.update('lookUp', 0, DWELL_MS);
+    tracker.update('lookUp', 1000, DWELL_MS);
+    tracker.markFired();
+    // A blink after firing does not bring the dwell back
+    expect(tracker.update('center', 1100, DWELL_MS, true).state).toBeNull();
+
+    tracker.update('center', 1200, DWELL_MS);
+    tracker.update('lookUp', 1300, DWELL_MS);
+    expect(tracker.update('lookUp', 2300, DWELL_MS).triggered).toBe('lookUp');
+  });
+});
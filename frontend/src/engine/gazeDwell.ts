@@ -0,0 +1,78 @@
+import type { GazeDirection } from '@/utils/gazeUtils';
+
+export const DEFAULT_DWELL_MS = 1500;
+export const DEFAULT_DWELL_COOLDOWN_MS = 2000;
+
+export interface DwellState {
+  direction: GazeDirection;
+  // 0..1 of the dwell time held so far
+  progress: number;
+}
+
+export interface DwellUpdate {
+  state: DwellState | null;
+  // Set on the frame the dwell completes
+  triggered: GazeDirection | null;
+}
+
+// Tracks how long the gaze has rested in one non-centre direction. A completed
+// dwell keeps triggering until the caller marks it fired (it may be held back
+// by a cooldown); after that the user must look away before it can fire again.
+export function createDwellTracker() {
+  let direction: GazeDirection | null = null;
+  let since = 0;
+  let fired = false;
+  // Start of the current pause, while the dwell is frozen
+  let pausedAt: number | null = null;
+
+  function reset() {
+    direction = null;
+    since = 0;
+    fired = false;
+    pausedAt = null;
+  }
+
+  const progressAt = (time: number, dwellMs: number) => Math.min(1, (time - since) / dwellMs);
+
+  // `current` is where the gaze rests, or null when it cannot count (centre,
+  // unmapped). While `paused` (a blink, or a blink sequence in progress) the
+  // gaze reading is unreliable, so the dwell is frozen instead of reset: an
+  // involuntary blink must not throw away the time already held.
+  function update(current: GazeDirection | null, now: number, dwellMs: number, paused = false): DwellUpdate {
+    if (paused) {
+      if (!direction || fired) return { state: null, triggered: null };
+      pausedAt ??= now;
+      return { state: { direction, progress: progressAt(pausedAt, dwellMs) }, triggered: null };
+    }
+    if (pausedAt !== null) {
+      // The paused time does not count towards the dwell
+      since += now - pausedAt;
+      pausedAt = null;
+    }
+
+    if (!current || current === 'center') {
+      reset();
+      return { state: null, triggered: null };
+    }
+
+    if (current !== direction) {
+      direction = current;
+      since = now;
+      fired = false;
+    }
+
+    if (fired) return { state: null, triggered: null };
+
+    const progress = progressAt(now, dwellMs);
+    return { state: { direction: current, progress }, triggered: progress >= 1 ? current : null };
+  }
+
+  // Call once a triggered dwell has produced its gesture
+  function markFired() {
+    fired = true;
+  }
+
+  return { update, markFired, reset };
+}
+
+export type DwellTracker = ReturnType<typeof createDwellTracker>;
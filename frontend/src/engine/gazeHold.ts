@@ -0,0 +1,49 @@
+import type { GazeDirection } from '@/utils/gazeUtils';
+import type { BlinkEvent } from './blinkStateMachine';
+
+export interface GazeSample {
+  time: number;
+  direction: GazeDirection;
+}
+
+// Gaze is sampled from shortly before the first blink until the sequence
+// settles; closed-eye frames are never sampled since the eyes cannot be read.
+export const GAZE_LEAD_MS = 400;
+// Share of the window's samples that must agree for a direction to count as held
+const MIN_HOLD_RATIO = 0.6;
+const MIN_SAMPLES = 3;
+
+// The direction held for most of the samples between `from` and `to`, or null
+// when the user looked at the centre or their gaze wandered
+export function dominantGazeDirection(samples: GazeSample[], from: number, to = Infinity): GazeDirection | null {
+  const inWindow = samples.filter(sample => sample.time >= from && sample.time <= to);
+  if (inWindow.length < MIN_SAMPLES) return null;
+
+  const counts = new Map<GazeDirection, number>();
+  for (const sample of inWindow) {
+    counts.set(sample.direction, (counts.get(sample.direction) ?? 0) + 1);
+  }
+
+  let held: GazeDirection | null = null;
+  let heldCount = 0;
+  for (const [direction, count] of counts) {
+    if (count > heldCount) {
+      held = direction;
+      heldCount = count;
+    }
+  }
+
+  if (held === 'center' || heldCount / inWindow.length < MIN_HOLD_RATIO) return null;
+  return held;
+}
+
+// The direction held around a blink sequence. Pure so it can be exercised without a camera.
+export function heldGazeDirection(samples: GazeSample[], blinks: BlinkEvent[]): GazeDirection | null {
+  if (blinks.length === 0) return null;
+  return dominantGazeDirection(samples, blinks[0].start - GAZE_LEAD_MS);
+}
+
+// Mapping key for a blink pattern made while looking in a direction, e.g. doubleBlink_lookUp
+export function compoundGestureKey(pattern: string, direction: GazeDirection): string {
+  return `${pattern}_${direction}`;
+}
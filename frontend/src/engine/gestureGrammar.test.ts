@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_LONG_BLINK_MS,
+  builtInGestureFor,
+  defineHoldGesture,
+  definitionsForMapping,
+  formatGesturePattern,
+  isCustomGestureKey,
+  parseGesturePattern
+} from './gestureGrammar';
+
+describe('parseGesturePattern', () => {
+  it('reads tokens separated by commas or "then", in any case and spacing', () => {
+    expect(parseGesturePattern('Long, short THEN wink left then look-up')).toEqual([
+      { type: 'blink', duration: 'long' },
+      { type: 'blink', duration: 'short' },
+      { type: 'wink', eye: 'left' },
+      { type: 'gaze', direction: 'lookUp' }
+    ]);
+  });
+
+  it('accepts the alternative token names', () => {
+    expect(parseGesturePattern('blink, right-wink')).toEqual(parseGesturePattern('short, wink-right'));
+  });
+
+  it('rejects unknown tokens, naming them', () => {
+    expect(() => parseGesturePattern('short, nod')).toThrow('Unknown gesture token "nod"');
+  });
+
+  it('rejects a pattern with no tokens', () => {
+    expect(() => parseGesturePattern(' , then ')).toThrow('at least one token');
+  });
+
+  it('rejects a pattern of gaze alone', () => {
+    expect(() => parseGesturePattern('look-up')).toThrow('at least one blink or wink');
+  });
+
+  it('rejects two gaze directions in a row', () => {
+    expect(() => parseGesturePattern('look-up, look-left, short')).toThrow('separated by a blink or wink');
+  });
+});
+
+describe('formatGesturePattern', () => {
+  it('writes the canonical form that parses back to the same tokens', () => {
+    const tokens = parseGesturePattern('look left then Blink then wink right');
+    const text = formatGesturePattern(tokens);
+    expect(text).toBe('look-left, short, wink-right');
+    expect(parseGesturePattern(text)).toEqual(tokens);
+  });
+});
+
+describe('isCustomGestureKey', () => {
+  it('accepts only patterns written in canonical form', () => {
+    expect(isCustomGestureKey('long, short, short')).toBe(true);
+    expect(isCustomGestureKey('long then short')).toBe(false);
+    expect(isCustomGestureKey('Long, short')).toBe(false);
+  });
+
+  it('leaves built-in keys and other text alone', () => {
+    expect(isCustomGestureKey('doubleBlink')).toBe(false);
+    expect(isCustomGestureKey('doubleBlink_lookUp')).toBe(false);
+    expect(isCustomGestureKey('Help')).toBe(false);
+  });
+});
+
+describe('definitionsForMapping', () => {
+  it('adds custom patterns used as mapping keys to the built-in gestures', () => {
+    const keys = definitionsForMapping({ 'long, short': 'Water', doubleBlink: 'Yes', lookUp: 'Needs' }).map(d => d.key);
+    expect(keys).toContain('singleBlink');
+    expect(keys).toContain('long, short');
+    expect(keys).not.toContain('lookUp');
+  });
+
+  it('leaves out custom keys that repeat a built-in pattern, which could never fire', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const keys = definitionsForMapping({ 'short, short': 'Yes', 'wink-left': 'No' }).map(d => d.key);
+    expect(keys).not.toContain('short, short');
+    expect(keys).not.toContain('wink-left');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('built-in doubleBlink'));
+    warn.mockRestore();
+  });
+});
+
+describe('builtInGestureFor', () => {
+  it('names the built-in gesture with the same pattern', () => {
+    expect(builtInGestureFor('long')).toBe('longBlink');
+    expect(builtInGestureFor('long, short')).toBeUndefined();
+  });
+});
+
+describe('defineHoldGesture', () => {
+  it('uses the hold time as the long-blink time of a built-in gesture', () => {
+    const gesture = defineHoldGesture('longBlink', 3000);
+    expect(gesture.tokens).toEqual([{ type: 'blink', duration: 'long' }]);
+    expect(gesture.longBlinkMs).toBe(3000);
+    expect(DEFAULT_LONG_BLINK_MS).toBeLessThan(3000);
+  });
+});
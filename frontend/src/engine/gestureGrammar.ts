@@ -0,0 +1,144 @@
+import type { GazeDirection } from '@/utils/gazeUtils';
+
+// A gesture is written as a sequence of tokens separated by commas or "then",
+// e.g. "long, short, short" or "wink-left then look-up":
+//   short | blink         a blink of both eyes shorter than the long-blink time
+//   long                  a blink of both eyes held for at least the long-blink time
+//   wink-left | wink-right one eye closed while the other stays open
+//   look-up | look-down | look-left | look-right
+//                         gaze held before, between or after the blinks
+export type GestureToken =
+  | { type: 'blink'; duration: 'short' | 'long' }
+  | { type: 'wink'; eye: 'left' | 'right' }
+  | { type: 'gaze'; direction: GazeDirection };
+
+// Timing constraints (milliseconds)
+export const DEFAULT_LONG_BLINK_MS = 800;
+export const DEFAULT_MAX_GAP_MS = 600;
+
+export interface GestureDefinition {
+  // Mapping key the gesture fires as
+  key: string;
+  tokens: GestureToken[];
+  // Minimum closure for a `long` token
+  longBlinkMs: number;
+  // Maximum open-eye time between consecutive blinks, and how long gaze is
+  // read before the first and after the last blink
+  maxGapMs: number;
+}
+
+// The original blink patterns, kept under their existing mapping keys
+export const BUILT_IN_GESTURES: Record<string, string> = {
+  singleBlink: 'short',
+  doubleBlink: 'short, short',
+  tripleBlink: 'short, short, short',
+  longBlink: 'long',
+  leftWink: 'wink-left',
+  rightWink: 'wink-right'
+};
+
+const tokenNames: Record<string, GestureToken> = {
+  'short': { type: 'blink', duration: 'short' },
+  'blink': { type: 'blink', duration: 'short' },
+  'long': { type: 'blink', duration: 'long' },
+  'wink-left': { type: 'wink', eye: 'left' },
+  'left-wink': { type: 'wink', eye: 'left' },
+  'wink-right': { type: 'wink', eye: 'right' },
+  'right-wink': { type: 'wink', eye: 'right' },
+  'look-up': { type: 'gaze', direction: 'lookUp' },
+  'look-down': { type: 'gaze', direction: 'lookDown' },
+  'look-left': { type: 'gaze', direction: 'lookLeft' },
+  'look-right': { type: 'gaze', direction: 'lookRight' }
+};
+
+function parseToken(text: string): GestureToken {
+  const name = text.trim().toLowerCase().replace(/\s+/g, '-');
+  const token = tokenNames[name];
+  if (!token) {
+    throw new Error(`Unknown gesture token "${text.trim()}"`);
+  }
+  return token;
+}
+
+// Parse pattern text into tokens. Throws with a readable message when the
+// text is not a valid gesture.
+export function parseGesturePattern(text: string): GestureToken[] {
+  const parts = text.split(/,|\bthen\b/i).filter(part => part.trim() !== '');
+  if (parts.length === 0) {
+    throw new Error('A gesture needs at least one token');
+  }
+
+  const tokens = parts.map(parseToken);
+  if (!tokens.some(token => token.type !== 'gaze')) {
+    throw new Error('A gesture needs at least one blink or wink');
+  }
+  for (let i = 1; i < tokens.length; i++) {
+    if (tokens[i].type === 'gaze' && tokens[i - 1].type === 'gaze') {
+      throw new Error('Gaze directions must be separated by a blink or wink');
+    }
+  }
+  return tokens;
+}
+
+function formatToken(token: GestureToken): string {
+  switch (token.type) {
+    case 'blink':
+      return token.duration;
+    case 'wink':
+      return `wink-${token.eye}`;
+    case 'gaze':
+      return `look-${token.direction.slice('look'.length).toLowerCase()}`;
+  }
+}
+
+// Canonical text for tokens; custom gestures use it as their mapping key
+export function formatGesturePattern(tokens: GestureToken[]): string {
+  return tokens.map(formatToken).join(', ');
+}
+
+export function defineGesture(key: string, pattern: string): GestureDefinition {
+  return {
+    key,
+    tokens: parseGesturePattern(pattern),
+    longBlinkMs: DEFAULT_LONG_BLINK_MS,
+    maxGapMs: DEFAULT_MAX_GAP_MS
+  };
+}
+
+// A built-in gesture or custom pattern whose long blinks must be held for
+// `holdMs`, e.g. longBlink held for several seconds
+export function defineHoldGesture(key: string, holdMs: number): GestureDefinition {
+  return { ...defineGesture(key, BUILT_IN_GESTURES[key] ?? key), longBlinkMs: holdMs };
+}
+
+// A mapping key written in canonical pattern form, e.g. "long, short, short"
+export function isCustomGestureKey(key: string): boolean {
+  if (key in BUILT_IN_GESTURES) return false;
+  try {
+    return formatGesturePattern(parseGesturePattern(key)) === key;
+  } catch {
+    return false;
+  }
+}
+
+// The built-in gesture with the same pattern as canonical `pattern`, if any
+export function builtInGestureFor(pattern: string): string | undefined {
+  return Object.keys(BUILT_IN_GESTURES).find(
+    gesture => formatGesturePattern(parseGesturePattern(BUILT_IN_GESTURES[gesture])) === pattern
+  );
+}
+
+// Built-in definitions plus any custom patterns used as keys in the mapping. A
+// custom key with a built-in's pattern could never fire, so it is left out.
+export function definitionsForMapping(mapping: Record<string, string>): GestureDefinition[] {
+  const builtIns = Object.entries(BUILT_IN_GESTURES).map(([key, pattern]) => defineGesture(key, pattern));
+  const custom = Object.keys(mapping)
+    .filter(isCustomGestureKey)
+    .filter(key => {
+      const builtIn = builtInGestureFor(key);
+      if (builtIn) console.warn(`Custom gesture "${key}" is the built-in ${builtIn} gesture; map ${builtIn} instead`);
+      return !builtIn;
+    })
+    .map(key => defineGesture(key, key));
+  return [...builtIns, ...custom];
+}
@@ -0,0 +1,96 @@
+import type { GazeDirection } from '@/utils/gazeUtils';
+import type { BlinkEvent } from './blinkStateMachine';
+import { dominantGazeDirection, type GazeSample } from './gazeHold';
+import { DEFAULT_MAX_GAP_MS, type GestureDefinition, type GestureToken } from './gestureGrammar';
+
+type BlinkMatcher = (blink: BlinkEvent) => boolean;
+
+interface CompiledGesture {
+  definition: GestureDefinition;
+  blinks: BlinkMatcher[];
+  // Gaze required before blink i (index i) or after the last one (index blinks.length)
+  gaze: (GazeDirection | null)[];
+  gazeCount: number;
+}
+
+function compileBlinkToken(token: Exclude<GestureToken, { type: 'gaze' }>, longBlinkMs: number): BlinkMatcher {
+  if (token.type === 'wink') {
+    return blink => blink.eye === token.eye;
+  }
+  if (token.duration === 'long') {
+    return blink => blink.eye === 'both' && blink.duration >= longBlinkMs;
+  }
+  return blink => blink.eye === 'both' && blink.duration < longBlinkMs;
+}
+
+function compile(definition: GestureDefinition): CompiledGesture {
+  const blinks: BlinkMatcher[] = [];
+  const gaze: (GazeDirection | null)[] = [null];
+
+  for (const token of definition.tokens) {
+    if (token.type === 'gaze') {
+      gaze[blinks.length] = token.direction;
+    } else {
+      blinks.push(compileBlinkToken(token, definition.longBlinkMs));
+      gaze.push(null);
+    }
+  }
+
+  return {
+    definition,
+    blinks,
+    gaze,
+    gazeCount: gaze.filter(direction => direction !== null).length
+  };
+}
+
+// Compiles gesture definitions once and matches settled blink sequences (plus
+// the gaze samples around them) against them. When several definitions fit,
+// the one with the most gaze requirements wins, so "short, look-up" beats "short".
+export function createGestureMatcher(definitions: GestureDefinition[]) {
+  const compiled = definitions
+    .map(compile)
+    .sort((a, b) => b.gazeCount - a.gazeCount);
+
+  // Waiting this long after the last blink lets every definition see its full sequence
+  const settleMs = Math.max(DEFAULT_MAX_GAP_MS, ...definitions.map(definition => definition.maxGapMs));
+
+  function isSettled(blinks: BlinkEvent[], now: number): boolean {
+    if (blinks.length === 0) return false;
+    return now - blinks[blinks.length - 1].end > settleMs;
+  }
+
+  function matchesGaze(gesture: CompiledGesture, blinks: BlinkEvent[], samples: GazeSample[], now: number) {
+    const { maxGapMs } = gesture.definition;
+    return gesture.gaze.every((direction, i) => {
+      if (!direction) return true;
+      const from = i === 0 ? blinks[0].start - maxGapMs : blinks[i - 1].end;
+      const to = i === blinks.length ? now : blinks[i].start;
+      return dominantGazeDirection(samples, from, to) === direction;
+    });
+  }
+
+  function matches(gesture: CompiledGesture, blinks: BlinkEvent[], samples: GazeSample[], now: number) {
+    if (gesture.blinks.length !== blinks.length) return false;
+    for (let i = 1; i < blinks.length; i++) {
+      if (blinks[i].start - blinks[i - 1].end > gesture.definition.maxGapMs) return false;
+    }
+    if (!gesture.blinks.every((matchBlink, i) => matchBlink(blinks[i]))) return false;
+    return matchesGaze(gesture, blinks, samples, now);
+  }
+
+  // The best matching definition for a settled sequence, or null
+  function match(blinks: BlinkEvent[], samples: GazeSample[], now: number): GestureDefinition | null {
+    if (blinks.length === 0) return null;
+    const found = compiled.find(gesture => matches(gesture, blinks, samples, now));
+    return found?.definition ?? null;
+  }
+
+  return {
+    settleMs,
+    isSettled,
+    match
+  };
+}
+
+export type GestureMatcher = ReturnType<typeof createGestureMatcher>;
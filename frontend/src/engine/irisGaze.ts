@@ -0,0 +1,95 @@
+import type { GazeDirection } from '@/utils/gazeUtils';
+
+// Refined FaceMesh landmarks (refineLandmarks: true). "Left"/"right" are the
+// user's own eyes, matching LEFT_EYE_INDICES/RIGHT_EYE_INDICES in earUtils.
+const LEFT_EYE = { iris: 473, inner: 362, outer: 263, upper: 386, lower: 374 };
+const RIGHT_EYE = { iris: 468, inner: 133, outer: 33, upper: 159, lower: 145 };
+const REFINED_LANDMARK_COUNT = 478;
+
+// Iris offset from the eye centre, as a fraction of eye width/height, beyond
+// which the user is looking in that direction
+const HORIZONTAL_THRESHOLD = 0.12;
+const VERTICAL_THRESHOLD = 0.18;
+// Below this eye opening the lids cover the iris and its position is unreliable
+const MIN_EYE_OPENING = 0.15;
+
+export interface GazeEstimate {
+  direction: GazeDirection;
+  confidence: number;
+  // Offsets from the eye centre in the user's frame: positive is towards
+  // their left (horizontal) and downwards (vertical), roughly -0.5..0.5
+  horizontal: number;
+  vertical: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface EyeOffset {
+  horizontal: number;
+  vertical: number;
+}
+
+function eyeOffset(landmarks: Point[], eye: typeof LEFT_EYE): EyeOffset | null {
+  const iris = landmarks[eye.iris];
+  const inner = landmarks[eye.inner];
+  const outer = landmarks[eye.outer];
+  const upper = landmarks[eye.upper];
+  const lower = landmarks[eye.lower];
+
+  const width = Math.abs(outer.x - inner.x);
+  const height = lower.y - upper.y;
+  if (width === 0 || height / width < MIN_EYE_OPENING) return null;
+
+  // In the (unmirrored) camera image the user's left is towards larger x
+  const left = Math.min(inner.x, outer.x);
+  return {
+    horizontal: (iris.x - left) / width - 0.5,
+    vertical: (iris.y - upper.y) / height - 0.5
+  };
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Estimate gaze direction from where each iris sits between its eye corners
+// and lids. Returns null when the landmarks lack iris points or the eyes are
+// too closed to see the irises.
+export function estimateIrisGaze(landmarks: Point[]): GazeEstimate | null {
+  if (!landmarks || landmarks.length < REFINED_LANDMARK_COUNT) return null;
+
+  const left = eyeOffset(landmarks, LEFT_EYE);
+  const right = eyeOffset(landmarks, RIGHT_EYE);
+  if (!left || !right) return null;
+
+  const horizontal = (left.horizontal + right.horizontal) / 2;
+  const vertical = (left.vertical + right.vertical) / 2;
+  const horizontalStrength = Math.abs(horizontal) / HORIZONTAL_THRESHOLD;
+  const verticalStrength = Math.abs(vertical) / VERTICAL_THRESHOLD;
+
+  // Both irises should move together; disagreement lowers confidence
+  const disagreement = Math.max(
+    Math.abs(left.horizontal - right.horizontal) / HORIZONTAL_THRESHOLD,
+    Math.abs(left.vertical - right.vertical) / VERTICAL_THRESHOLD
+  );
+  const agreement = clamp01(1 - disagreement / 2);
+
+  let direction: GazeDirection = 'center';
+  let strength = 1 - Math.max(horizontalStrength, verticalStrength);
+  if (horizontalStrength >= 1 || verticalStrength >= 1) {
+    if (horizontalStrength > verticalStrength) {
+      direction = horizontal > 0 ? 'lookLeft' : 'lookRight';
+    } else {
+      direction = vertical > 0 ? 'lookDown' : 'lookUp';
+    }
+    strength = Math.max(horizontalStrength, verticalStrength) / 2;
+  }
+
+  return {
+    direction,
+    confidence: clamp01(strength) * agreement,
+    horizontal,
+    vertical
+  };
+}
@@ -0,0 +1,81 @@
+import type { GazeDirection } from '@/utils/gazeUtils';
+
+// 'rows' highlights whole rows in turn; 'keys' highlights the keys of one row
+export type ScanMode = 'rows' | 'keys';
+
+export interface ScanPosition {
+  mode: ScanMode;
+  row: number;
+  key: number;
+}
+
+export interface ScanSelection {
+  row: number;
+  key: number;
+}
+
+// Passes over a row's keys without a selection before scanning returns to the rows
+const KEY_SCAN_LOOPS = 2;
+
+// Row-column scanning over rows of differing lengths: the first selection
+// picks a row, the second a key in it. Gaze control instead moves a key
+// cursor directly, one step per look.
+export function createKeyboardScanner(rowLengths: number[]) {
+  let position: ScanPosition = { mode: 'rows', row: 0, key: 0 };
+  let loops = 0;
+
+  function advance(): ScanPosition {
+    if (position.mode === 'rows') {
+      position = { ...position, row: (position.row + 1) % rowLengths.length };
+      return position;
+    }
+
+    const next = position.key + 1;
+    if (next < rowLengths[position.row]) {
+      position = { ...position, key: next };
+    } else if (++loops >= KEY_SCAN_LOOPS) {
+      position = { mode: 'rows', row: position.row, key: 0 };
+    } else {
+      position = { ...position, key: 0 };
+    }
+    return position;
+  }
+
+  function move(direction: GazeDirection): ScanPosition {
+    const rows = rowLengths.length;
+    let { row, key } = position;
+    if (direction === 'lookUp') row = (row - 1 + rows) % rows;
+    if (direction === 'lookDown') row = (row + 1) % rows;
+    key = Math.min(key, rowLengths[row] - 1);
+    if (direction === 'lookLeft') key = (key - 1 + rowLengths[row]) % rowLengths[row];
+    if (direction === 'lookRight') key = (key + 1) % rowLengths[row];
+    position = { mode: 'keys', row, key };
+    return position;
+  }
+
+  // Returns the chosen key, or null when the selection only entered a row
+  function select(): ScanSelection | null {
+    if (position.mode === 'rows') {
+      position = { ...position, mode: 'keys', key: 0 };
+      loops = 0;
+      return null;
+    }
+    return { row: position.row, key: position.key };
+  }
+
+  // Back to row scanning after a key is chosen
+  function reset(mode: ScanMode = 'rows') {
+    position = { mode, row: mode === 'rows' ? 0 : position.row, key: 0 };
+    loops = 0;
+  }
+
+  return {
+    advance,
+    move,
+    select,
+    reset,
+    getPosition: () => position
+  };
+}
+
+export type KeyboardScanner = ReturnType<typeof createKeyboardScanner>;
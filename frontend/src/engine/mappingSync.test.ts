@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { chooseSyncAction } from './mappingSync';
+
+const remote = (version: number, updatedAt: string | null = '2026-10-19T10:00:00.000Z') => ({ version, updatedAt });
+const at = (iso: string) => Date.parse(iso);
+
+describe('chooseSyncAction', () => {
+  it('pulls the backend copy when the device has none', () => {
+    expect(chooseSyncAction(null, remote(3))).toBe('pull');
+  });
+
+  it('does nothing when neither side has a mapping', () => {
+    expect(chooseSyncAction(null, remote(0, null))).toBe('none');
+  });
+
+  it('pushes unsent edits based on the current version', () => {
+    expect(chooseSyncAction({ version: 3, updatedAt: at('2026-10-19T09:00:00Z'), pending: true }, remote(3))).toBe('push');
+  });
+
+  it('does nothing when the device is up to date', () => {
+    expect(chooseSyncAction({ version: 3, updatedAt: 0, pending: false }, remote(3))).toBe('none');
+  });
+
+  it('pulls a newer version when there is nothing to send', () => {
+    expect(chooseSyncAction({ version: 2, updatedAt: at('2026-10-19T11:00:00Z'), pending: false }, remote(3))).toBe('pull');
+  });
+
+  describe('when both sides changed', () => {
+    it('pushes a local edit made after the backend one', () => {
+      expect(chooseSyncAction({ version: 2, updatedAt: at('2026-10-19T10:00:01Z'), pending: true }, remote(3))).toBe('push');
+    });
+
+    it('pulls a backend edit made after the local one', () => {
+      expect(chooseSyncAction({ version: 2, updatedAt: at('2026-10-19T09:59:59Z'), pending: true }, remote(3))).toBe('pull');
+    });
+
+    it('gives a tie to the backend', () => {
+      expect(chooseSyncAction({ version: 2, updatedAt: at('2026-10-19T10:00:00Z'), pending: true }, remote(3))).toBe('pull');
+    });
+
+    it('pushes when the backend copy has no edit time', () => {
+      expect(chooseSyncAction({ version: 2, updatedAt: 1, pending: true }, remote(3, null))).toBe('push');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+// How the mapping kept on this device is reconciled with the backend copy.
+// Each save on the backend bumps its version; the local copy remembers the
+// version it was based on and when it was last edited.
+
+export type SyncStatus = 'synced' | 'pending' | 'offline' | 'error';
+
+export interface LocalVersion {
+  // Backend version the local copy is based on; 0 if never synced
+  version: number;
+  // Last local edit, in ms
+  updatedAt: number;
+  // Edited since it was last synced
+  pending: boolean;
+}
+
+export interface RemoteVersion {
+  version: number;
+  // ISO time of the edit that was saved, or null if nothing has been
+  updatedAt: string | null;
+}
+
+export type SyncAction = 'push' | 'pull' | 'none';
+
+// What to do with the local copy given the backend's. Unsent edits based on
+// the current version are pushed. When both sides changed, the later edit
+// wins; a tie goes to the backend, whose copy another device already has.
+export function chooseSyncAction(local: LocalVersion | null, remote: RemoteVersion): SyncAction {
+  if (!local) return remote.version > 0 ? 'pull' : 'none';
+  if (remote.version <= local.version) return local.pending ? 'push' : 'none';
+  if (!local.pending) return 'pull';
+  const remoteTime = remote.updatedAt ? Date.parse(remote.updatedAt) : 0;
+  return local.updatedAt > remoteTime ? 'push' : 'pull';
+}
@@ -0,0 +1,114 @@
+import type { BlinkEvent } from './blinkStateMachine';
+
+export const MORSE_CODE: Record<string, string> = {
+  '.-': 'A', '-...': 'B', '-.-.': 'C', '-..': 'D', '.': 'E', '..-.': 'F',
+  '--.': 'G', '....': 'H', '..': 'I', '.---': 'J', '-.-': 'K', '.-..': 'L',
+  '--': 'M', '-.': 'N', '---': 'O', '.--.': 'P', '--.-': 'Q', '.-.': 'R',
+  '...': 'S', '-': 'T', '..-': 'U', '...-': 'V', '.--': 'W', '-..-': 'X',
+  '-.--': 'Y', '--..': 'Z',
+  '-----': '0', '.----': '1', '..---': '2', '...--': '3', '....-': '4',
+  '.....': '5', '-....': '6', '--...': '7', '---..': '8', '----.': '9',
+  '.-.-.-': '.', '--..--': ',', '..--..': '?', '-.-.--': '!'
+};
+
+// Timing (milliseconds). Dashes are much shorter than a long-blink gesture so
+// typing stays comfortable; the gaps are measured from the end of the last blink.
+export interface MorseTiming {
+  dashMs: number;
+  // A closure this long is a command (accept the suggestion) rather than a dash
+  holdMs: number;
+  letterGapMs: number;
+  wordGapMs: number;
+}
+
+export const DEFAULT_MORSE_TIMING: MorseTiming = {
+  dashMs: 400,
+  holdMs: 1500,
+  letterGapMs: 1200,
+  wordGapMs: 3000
+};
+
+export interface MorseState {
+  // Committed text
+  text: string;
+  // Dots and dashes of the letter being entered
+  code: string;
+}
+
+export function decodeMorse(code: string): string | null {
+  return MORSE_CODE[code] ?? null;
+}
+
+// Turns blink events into text: each closure adds a dot or dash, a pause of
+// letterGapMs commits the letter and a longer pause of wordGapMs adds a space.
+// Codes that are not letters are dropped.
+export function createMorseDecoder(timing: MorseTiming = DEFAULT_MORSE_TIMING) {
+  let text = '';
+  let code = '';
+  let lastBlinkEnd: number | null = null;
+  let wordPending = false;
+
+  function addBlink(blink: BlinkEvent) {
+    code += blink.duration >= timing.dashMs ? '-' : '.';
+    lastBlinkEnd = blink.end;
+    wordPending = false;
+  }
+
+  // Commit letters and word breaks once their pause has passed. Returns
+  // whether the state changed.
+  function update(now: number): boolean {
+    if (lastBlinkEnd === null) return false;
+    const idle = now - lastBlinkEnd;
+    let changed = false;
+
+    if (code && idle > timing.letterGapMs) {
+      const letter = decodeMorse(code);
+      if (letter) text += letter;
+      code = '';
+      wordPending = true;
+      changed = true;
+    }
+
+    if (wordPending && idle > timing.wordGapMs) {
+      if (text && !text.endsWith(' ')) text += ' ';
+      wordPending = false;
+      lastBlinkEnd = null;
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  // Drop the letter being entered, or the last committed character
+  function deleteLast() {
+    if (code) {
+      code = '';
+    } else {
+      text = text.slice(0, -1);
+    }
+    wordPending = false;
+  }
+
+  // Replace the text, e.g. with an accepted word prediction
+  function setText(next: string) {
+    text = next;
+    code = '';
+    lastBlinkEnd = null;
+    wordPending = false;
+  }
+
+  function clear() {
+    text = '';
+    code = '';
+    lastBlinkEnd = null;
+    wordPending = false;
+  }
+
+  function getState(): MorseState {
+    return { text, code };
+  }
+
+  return { addBlink, update, deleteLast, setText, clear, getState };
+}
+
+export type MorseDecoder = ReturnType<typeof createMorseDecoder>;
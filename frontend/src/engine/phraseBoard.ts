@@ -0,0 +1,101 @@
+// A gesture mapping is a tree: each gesture either speaks a phrase or opens a
+// sub-board with its own gesture mapping. A flat gesture → phrase map is a
+// tree of depth one, so existing mappings remain valid.
+export interface PhraseBoard {
+  label: string;
+  mapping: GestureMapping;
+}
+
+export type BoardEntry = string | PhraseBoard;
+
+export type GestureMapping = Record<string, BoardEntry>;
+
+// Inside a sub-board this gesture always returns to the parent board
+export const DEFAULT_BACK_GESTURE = 'longBlink';
+export const ROOT_BOARD_LABEL = 'Home';
+
+export type BoardAction =
+  | { type: 'phrase'; phrase: string }
+  | { type: 'board'; board: PhraseBoard }
+  | { type: 'back' }
+  | { type: 'none' };
+
+export function isPhraseBoard(entry: BoardEntry | undefined): entry is PhraseBoard {
+  return typeof entry === 'object' && entry !== null && typeof entry.mapping === 'object';
+}
+
+// Follow a path of gesture keys from the root; stops at the deepest valid board
+export function getBoardAt(root: GestureMapping, path: string[]): GestureMapping {
+  let mapping = root;
+  for (const gesture of path) {
+    const entry = mapping[gesture];
+    if (!isPhraseBoard(entry)) break;
+    mapping = entry.mapping;
+  }
+  return mapping;
+}
+
+// Labels of the boards along a path, starting with the root
+export function getBoardLabels(root: GestureMapping, path: string[]): string[] {
+  const labels = [ROOT_BOARD_LABEL];
+  let mapping = root;
+  for (const gesture of path) {
+    const entry = mapping[gesture];
+    if (!isPhraseBoard(entry)) break;
+    labels.push(entry.label);
+    mapping = entry.mapping;
+  }
+  return labels;
+}
+
+// Return a copy of the tree with the board at `path` replaced by `update(board)`
+export function updateBoardAt(
+  root: GestureMapping,
+  path: string[],
+  update: (mapping: GestureMapping) => GestureMapping
+): GestureMapping {
+  if (path.length === 0) return update(root);
+  const [gesture, ...rest] = path;
+  const entry = root[gesture];
+  if (!isPhraseBoard(entry)) return root;
+  return {
+    ...root,
+    [gesture]: { ...entry, mapping: updateBoardAt(entry.mapping, rest, update) }
+  };
+}
+
+// What a gesture does on the board at `path`
+export function resolveGesture(
+  root: GestureMapping,
+  path: string[],
+  gesture: string,
+  backGesture = DEFAULT_BACK_GESTURE
+): BoardAction {
+  if (path.length > 0 && gesture === backGesture) return { type: 'back' };
+  const entry = getBoardAt(root, path)[gesture];
+  if (isPhraseBoard(entry)) return { type: 'board', board: entry };
+  if (typeof entry === 'string' && entry) return { type: 'phrase', phrase: entry };
+  return { type: 'none' };
+}
+
+// The flat gesture → text map the detection engine needs for one board:
+// phrases as they are, sub-boards by their label, plus the back gesture
+export function flattenBoard(
+  mapping: GestureMapping,
+  isSubBoard: boolean,
+  backGesture = DEFAULT_BACK_GESTURE
+): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const [gesture, entry] of Object.entries(mapping)) {
+    flat[gesture] = isPhraseBoard(entry) ? entry.label : entry;
+  }
+  if (isSubBoard) flat[backGesture] = 'Back';
+  return flat;
+}
+
+// Every phrase in the mapping, including those inside sub-boards
+export function listPhrases(mapping: GestureMapping): string[] {
+  return Object.values(mapping).flatMap(entry =>
+    isPhraseBoard(entry) ? listPhrases(entry.mapping) : entry ? [entry] : []
+  );
+}
@@ -0,0 +1,72 @@
+import type { GestureMapping } from './phraseBoard';
+
+// A phrase pack bundles a gesture mapping with the language it is spoken in.
+// Packs are shared as JSON files keyed by gesture, like mappings themselves.
+export interface PhrasePack {
+  id: string;
+  name: string;
+  // BCP 47 tag used to pick a voice, e.g. 'es-ES'
+  language: string;
+  mapping: GestureMapping;
+  // Gesture names shown on the gesture grid, in the pack's language
+  gestureLabels?: Record<string, string>;
+}
+
+// Primary language subtag, so 'es-MX' and 'es_ES' both read as Spanish
+export function primaryLanguage(tag: string): string {
+  return tag.split(/[-_]/)[0].toLowerCase();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isGestureMapping(value: unknown): value is GestureMapping {
+  if (!isRecord(value)) return false;
+  return Object.values(value).every(entry =>
+    typeof entry === 'string' ||
+    (isRecord(entry) && typeof entry.label === 'string' && isGestureMapping(entry.mapping))
+  );
+}
+
+// Parse an imported pack file, throwing an Error that explains what is wrong
+export function parsePhrasePack(text: string): PhrasePack {
+  let data: Partial<PhrasePack>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!isRecord(data)) {
+    throw new Error('A phrase pack must be a JSON object');
+  }
+  if (typeof data.id !== 'string' || !data.id.trim()) {
+    throw new Error('The pack needs an "id"');
+  }
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    throw new Error('The pack needs a "name"');
+  }
+  if (typeof data.language !== 'string' || !/^[a-z]{2,3}([-_][a-z0-9]+)*$/i.test(data.language)) {
+    throw new Error('The pack needs a "language" such as "en-US"');
+  }
+  if (!isGestureMapping(data.mapping)) {
+    throw new Error('"mapping" must map gestures to phrases or sub-boards');
+  }
+  const labels = data.gestureLabels;
+  if (labels !== undefined && !(isRecord(labels) && Object.values(labels).every(label => typeof label === 'string'))) {
+    throw new Error('"gestureLabels" must map gestures to names');
+  }
+
+  return {
+    id: data.id.trim(),
+    name: data.name.trim(),
+    language: data.language,
+    mapping: data.mapping,
+    gestureLabels: labels
+  };
+}
+
+export function serializePhrasePack(pack: PhrasePack): string {
+  return JSON.stringify(pack, null, 2);
+}
@@ -0,0 +1,101 @@
+// How a new phrase treats one that is still playing: wait for it, or cut it off
+export type SpeechPolicy = 'queue' | 'interrupt';
+// Urgent phrases preempt everything, are never dropped and cannot be interrupted
+export type SpeechPriority = 'normal' | 'urgent';
+
+export interface SpeechRequest<T = undefined> {
+  text: string;
+  policy: SpeechPolicy;
+  priority: SpeechPriority;
+  // Passed through to the player, e.g. voice settings
+  payload?: T;
+}
+
+export type SpeechOutcome = 'played' | 'queued' | 'dropped';
+
+// The output the queue drives. `play` must call `onEnd` exactly once when the
+// phrase finishes or fails; the queue ignores ends of phrases it has stopped.
+export interface SpeechPlayer<T> {
+  play(request: SpeechRequest<T>, onEnd: () => void): void;
+  stop(): void;
+}
+
+export const DEFAULT_DUPLICATE_WINDOW_MS = 2000;
+
+export function createSpeechQueue<T = undefined>(player: SpeechPlayer<T>) {
+  let current: SpeechRequest<T> | null = null;
+  let pending: SpeechRequest<T>[] = [];
+  // Bumped whenever playback is cut off so stale end events are ignored
+  let generation = 0;
+  let lastAccepted: { text: string; time: number } | null = null;
+  let lastSpoken: SpeechRequest<T> | null = null;
+
+  function play(request: SpeechRequest<T>) {
+    current = request;
+    lastSpoken = request;
+    const playing = generation;
+    player.play(request, () => {
+      if (playing !== generation) return;
+      current = null;
+      const next = pending.shift();
+      if (next) play(next);
+    });
+  }
+
+  function stopAll() {
+    generation++;
+    pending = [];
+    if (current) player.stop();
+    current = null;
+  }
+
+  function enqueue(request: SpeechRequest<T>, now: number, duplicateWindowMs = DEFAULT_DUPLICATE_WINDOW_MS): SpeechOutcome {
+    const isDuplicate =
+      lastAccepted !== null &&
+      lastAccepted.text === request.text &&
+      now - lastAccepted.time < duplicateWindowMs;
+    if (request.priority === 'normal' && isDuplicate) return 'dropped';
+    lastAccepted = { text: request.text, time: now };
+
+    if (request.priority === 'urgent') {
+      stopAll();
+      play(request);
+      return 'played';
+    }
+
+    // Nothing cuts off an urgent phrase; wait behind it instead
+    const canInterrupt = request.policy === 'interrupt' && current?.priority !== 'urgent';
+    if (canInterrupt) stopAll();
+
+    if (!current) {
+      play(request);
+      return 'played';
+    }
+    pending.push(request);
+    return 'queued';
+  }
+
+  // Say the last phrase again right away, regardless of the duplicate window
+  function repeatLast(now: number): boolean {
+    if (!lastSpoken) return false;
+    const request: SpeechRequest<T> = { ...lastSpoken, policy: 'interrupt' };
+    lastAccepted = null;
+    return enqueue(request, now, 0) !== 'dropped';
+  }
+
+  function clear() {
+    stopAll();
+  }
+
+  function getState() {
+    return {
+      current: current?.text ?? null,
+      pending: pending.map(request => request.text),
+      lastSpoken: lastSpoken?.text ?? null
+    };
+  }
+
+  return { enqueue, repeatLast, clear, getState };
+}
+
+export type SpeechQueue<T = undefined> = ReturnType<typeof createSpeechQueue<T>>;
@@ -0,0 +1,83 @@
+import { tokenizeWords, type PredictionHistory } from '@/utils/predictionHistory';
+
+export interface Prediction {
+  // What the suggestion shows
+  label: string;
+  // The whole buffer after accepting it, ending in a space so typing can continue
+  text: string;
+}
+
+// Relative weight of each source when ranking a candidate word
+const BIGRAM_WEIGHT = 5;
+const HISTORY_WEIGHT = 2;
+const LEXICON_WEIGHT = 1;
+
+// Match the buffer's case so suggestions read naturally in all-caps Morse/keyboard text
+function matchCase(buffer: string, text: string): string {
+  const letters = buffer.replace(/[^a-zA-Z]/g, '');
+  return letters && letters === letters.toUpperCase() ? text.toUpperCase() : text;
+}
+
+// Offline word and sentence prediction from a bundled frequency lexicon plus
+// the user's own history. Works on the raw typing buffer: a trailing partial
+// word is completed, otherwise the next word is suggested.
+export function createWordPredictor(lexicon: string[], history: PredictionHistory) {
+  const lexiconScores = new Map<string, number>();
+  lexicon.forEach((word, rank) => lexiconScores.set(word, 1 - rank / lexicon.length));
+  const vocabulary = Array.from(new Set([...lexicon, ...Object.keys(history.unigrams)]));
+
+  function scoreWord(word: string, previous: string | undefined): number {
+    const bigram = previous ? history.bigrams[`${previous} ${word}`] ?? 0 : 0;
+    return (
+      BIGRAM_WEIGHT * Math.log1p(bigram) +
+      HISTORY_WEIGHT * Math.log1p(history.unigrams[word] ?? 0) +
+      LEXICON_WEIGHT * (lexiconScores.get(word) ?? 0)
+    );
+  }
+
+  // Previously spoken sentences that continue what has been typed so far
+  function completeSentence(typed: string): string[] {
+    return Object.entries(history.sentences)
+      .filter(([sentence]) => sentence.startsWith(typed) && sentence.length > typed.length)
+      .sort((a, b) => b[1] - a[1])
+      .map(([sentence]) => sentence);
+  }
+
+  function predict(buffer: string, limit = 3): Prediction[] {
+    const partialMatch = buffer.match(/[a-z0-9']+$/i);
+    const partial = partialMatch ? partialMatch[0].toLowerCase() : '';
+    // The buffer up to the word being completed, as typed
+    let stem = buffer.slice(0, buffer.length - partial.length);
+    if (stem && !/\s$/.test(stem)) stem += ' ';
+    const words = tokenizeWords(stem);
+    const previous = words[words.length - 1];
+
+    const predictions: Prediction[] = [];
+    const add = (label: string, text: string) => {
+      const cased = matchCase(buffer, text);
+      if (!predictions.some(prediction => prediction.text === cased)) {
+        predictions.push({ label: matchCase(buffer, label), text: cased });
+      }
+    };
+
+    const typed = tokenizeWords(buffer).join(' ');
+    const sentence = completeSentence(!partial && typed ? `${typed} ` : typed)[0];
+    if (sentence) {
+      add(sentence, `${sentence} `);
+    }
+
+    vocabulary
+      .filter(word => word.startsWith(partial) && word !== partial)
+      .map(word => ({ word, score: scoreWord(word, previous) }))
+      .sort((a, b) => b.score - a.score)
+      // One spare in case a word repeats the sentence suggestion
+      .slice(0, limit + 1)
+      .forEach(({ word }) => add(word, `${stem}${word} `));
+
+    return predictions.slice(0, limit);
+  }
+
+  return { predict };
+}
+
+export type WordPredictor = ReturnType<typeof createWordPredictor>;
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { deleteContact, fetchContacts, resendContactCode, saveContact, verifyContact } from '@/api/apiClient';
+import type { CaregiverContact } from '@/engine/caregiverContact';
+import { getDeviceSession } from '@/utils/deviceSession';
+
+// Caregiver contacts stored on the backend for this device's sid
+export function useCaregiverContacts() {
+  const [contacts, setContacts] = useState<CaregiverContact[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const { sid } = await getDeviceSession();
+      setContacts(await fetchContacts(sid));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load caregiver contacts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load contacts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Throws so the form can show why the backend rejected the contact
+  const save = useCallback(async (contact: CaregiverContact) => {
+    const { sid } = await getDeviceSession();
+    const result = await saveContact(sid, contact);
+    setContacts(current => contact.id
+      ? current.map(existing => (existing.id === contact.id ? result.contact : existing))
+      : [...current, result.contact]);
+    return result;
+  }, []);
+
+  // Throws with the backend's reason when the code is wrong or expired
+  const verify = useCallback(async (id: string, code: string) => {
+    const { sid } = await getDeviceSession();
+    const verified = await verifyContact(sid, id, code);
+    setContacts(current => current.map(existing => (existing.id === id ? verified : existing)));
+  }, []);
+
+  const resendCode = useCallback(async (id: string) => {
+    const { sid } = await getDeviceSession();
+    await resendContactCode(sid, id);
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    const { sid } = await getDeviceSession();
+    await deleteContact(sid, id);
+    setContacts(current => current.filter(contact => contact.id !== id));
+  }, []);
+
+  return { contacts, isLoading, error, save, verify, resendCode, remove, refresh };
+}
+
+export type CaregiverContacts = ReturnType<typeof useCaregiverContacts>;
@@ -0,0 +1,110 @@
+import { useState, useEffect, useRef } from 'react';
+import type { AdaptiveThresholdState } from '@/engine/adaptiveThreshold';
+import type { DwellState } from '@/engine/gazeDwell';
+import { loadCalibration } from '@/utils/calibrationStorage';
+import {
+  createDetectionEngine,
+  DEFAULT_BLINK_HYSTERESIS,
+  DEFAULT_BLINK_THRESHOLD,
+  type DetectionEngine,
+  type DetectionEngineConfig
+} from '@/engine/detectionEngine';
+
+interface DetectionEngineHookOptions extends DetectionEngineConfig {
+  isActive?: boolean;
+}
+
+// Binds a detection engine to a component: creates it once, keeps its config
+// in sync with the latest props and runs the loop while `isActive` is true.
+// Blink thresholds default to the user's personal calibration when present.
+export function useDetectionEngine(options: DetectionEngineHookOptions) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const engineRef = useRef<DetectionEngine | null>(null);
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [calibration] = useState(loadCalibration);
+  const [thresholdState, setThresholdState] = useState<AdaptiveThresholdState | null>(null);
+  const lastThresholdUpdate = useRef(0);
+  const [dwellState, setDwellState] = useState<DwellState | null>(null);
+  const lastDwell = useRef<{ state: DwellState | null; time: number }>({ state: null, time: 0 });
+
+  if (!engineRef.current) {
+    engineRef.current = createDetectionEngine({
+      getVideo: () => videoRef.current,
+      trackGaze: options.trackGaze
+    });
+  }
+  const engine = engineRef.current;
+
+  const { isActive = false, ...config } = options;
+  config.blinkThreshold ??= calibration?.blink?.threshold ?? DEFAULT_BLINK_THRESHOLD;
+  config.blinkHysteresis ??= calibration?.blink?.hysteresis ?? DEFAULT_BLINK_HYSTERESIS;
+  config.openBaseline ??= calibration?.blink?.openMean;
+
+  // Surface the live threshold a few times per second rather than every frame
+  const { onFrame } = options;
+  config.onFrame = (result) => {
+    onFrame?.(result);
+    const now = performance.now();
+    if (now - lastThresholdUpdate.current > 250) {
+      lastThresholdUpdate.current = now;
+      setThresholdState({ baseline: result.baseline, threshold: result.threshold });
+    }
+
+    // Dwell progress drives an animation, so it updates more often, and at once when a dwell starts or ends
+    const previous = lastDwell.current;
+    const dwellChanged = previous.state?.direction !== result.dwell?.direction;
+    if (dwellChanged || (result.dwell && now - previous.time > 100)) {
+      lastDwell.current = { state: result.dwell, time: now };
+      setDwellState(result.dwell);
+    }
+  };
+
+  // Callbacks change identity on every render, so push the config each time
+  useEffect(() => {
+    engine.configure(config);
+  });
+
+  useEffect(() => {
+    let aborted = false;
+
+    engine.init()
+      .then(() => {
+        if (!aborted) setIsInitialized(true);
+      })
+      .catch(error => console.error('Failed to initialize gesture detection:', error));
+
+    return () => {
+      aborted = true;
+      engine.dispose();
+    };
+  }, [engine]);
+
+  useEffect(() => {
+    if (!isInitialized || !isActive) {
+      setIsDetecting(false);
+      return;
+    }
+
+    engine.start();
+    setIsDetecting(true);
+    return () => {
+      engine.stop();
+      setIsDetecting(false);
+      lastDwell.current = { state: null, time: 0 };
+      setDwellState(null);
+    };
+  }, [engine, isInitialized, isActive]);
+
+  return {
+    engine,
+    videoRef,
+    isInitialized,
+    isDetecting,
+    thresholdState,
+    dwellState,
+    startCamera: engine.startCamera,
+    stopCamera: engine.stopCamera,
+    resetDetection: engine.reset
+  };
+}
@@ -0,0 +1,93 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { isTransientError, sendSMS } from '@/api/apiClient';
+import { DEFAULT_SMS_RETRY, formatAlertMessage, withRetry } from '@/engine/emergencyAlert';
+import type { CaregiverContact } from '@/engine/caregiverContact';
+import type { AppSettings } from '@/utils/settingsStorage';
+import { getDeviceSession } from '@/utils/deviceSession';
+
+export type EmergencyStatus = 'idle' | 'countdown' | 'sending' | 'sent' | 'failed';
+
+export interface EmergencyAlertState {
+  status: EmergencyStatus;
+  secondsLeft: number;
+  // Contacts the last send could not reach, even after retrying
+  failedContacts: CaregiverContact[];
+}
+
+type EmergencySettings = Pick<AppSettings, 'emergencyCountdownS' | 'emergencyMessage'>;
+
+const idleState: EmergencyAlertState = { status: 'idle', secondsLeft: 0, failedContacts: [] };
+
+// Countdown and delivery for an emergency alert. `trigger` starts the
+// countdown, which can be cancelled until it runs out and the alert is texted
+// to every contact who receives emergency alerts.
+export function useEmergencyAlert(settings: EmergencySettings, contacts: CaregiverContact[]) {
+  const [state, setState] = useState<EmergencyAlertState>(idleState);
+  // The timer and async sends read the latest values, not those they started with
+  const latest = useRef({ settings, contacts });
+  latest.current = { settings, contacts };
+  // Set while texts are going out, so "Send now" during a send does not text everyone twice
+  const sending = useRef(false);
+
+  const send = useCallback(async (only?: CaregiverContact[]) => {
+    if (sending.current) return;
+    const { settings, contacts } = latest.current;
+    const recipients = (only ?? contacts).filter(contact => contact.id && contact.verified && contact.alertLevels.includes('emergency'));
+    if (recipients.length === 0) {
+      console.warn('🚨 Emergency alert has no contacts to send to');
+      setState({ status: 'failed', secondsLeft: 0, failedContacts: [] });
+      return;
+    }
+
+    sending.current = true;
+    setState({ status: 'sending', secondsLeft: 0, failedContacts: [] });
+    try {
+      const message = formatAlertMessage(settings.emergencyMessage, new Date());
+      const results = await Promise.allSettled(
+        recipients.map(contact => withRetry(async () => {
+          const { sid } = await getDeviceSession();
+          return sendSMS(sid, contact.id!, message, 'emergency');
+        }, { ...DEFAULT_SMS_RETRY, shouldRetry: isTransientError }))
+      );
+      const failedContacts = recipients.filter((_, i) => results[i].status === 'rejected');
+      if (failedContacts.length > 0) console.error('🚨 Emergency alert failed for:', failedContacts.map(contact => contact.name));
+      setState({ status: failedContacts.length > 0 ? 'failed' : 'sent', secondsLeft: 0, failedContacts });
+    } finally {
+      sending.current = false;
+    }
+  }, []);
+
+  const trigger = useCallback(() => {
+    setState(current => {
+      // A second gesture while an alert is under way does not restart it
+      if (current.status === 'countdown' || current.status === 'sending') return current;
+      return { status: 'countdown', secondsLeft: latest.current.settings.emergencyCountdownS, failedContacts: [] };
+    });
+  }, []);
+
+  const cancel = useCallback(() => setState(idleState), []);
+
+  useEffect(() => {
+    if (state.status !== 'countdown') return;
+    if (state.secondsLeft <= 0) {
+      send();
+      return;
+    }
+    const timer = setTimeout(() => {
+      setState(current => current.status === 'countdown'
+        ? { ...current, secondsLeft: current.secondsLeft - 1 }
+        : current);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [state.status, state.secondsLeft, send]);
+
+  return {
+    ...state,
+    trigger,
+    cancel,
+    sendNow: () => send(),
+    // Try again for the contacts that were not reached
+    retry: () => send(state.failedContacts.length > 0 ? state.failedContacts : undefined),
+    dismiss: cancel
+  };
+}
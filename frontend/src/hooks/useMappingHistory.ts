@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  fetchMappingDiff,
+  fetchMappingRevisions,
+  restoreMappingRevision,
+  type MappingChange,
+  type MappingRevision
+} from '@/api/apiClient';
+import { getDeviceSession } from '@/utils/deviceSession';
+import { loadSettings } from '@/utils/settingsStorage';
+
+// Saved versions of this device's mapping, newest first, with what each changed
+export function useMappingHistory() {
+  const [revisions, setRevisions] = useState<MappingRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const { sid } = await getDeviceSession();
+      setRevisions(await fetchMappingRevisions(sid));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load mapping history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Changes a revision made to the one before it; the oldest kept is compared with an empty mapping
+  const changesIn = useCallback(async (version: number): Promise<MappingChange[]> => {
+    const index = revisions.findIndex(revision => revision.version === version);
+    const previous = revisions[index + 1]?.version ?? 0;
+    const { sid } = await getDeviceSession();
+    return fetchMappingDiff(sid, previous, version);
+  }, [revisions]);
+
+  // Throws so the caller can say why the restore failed. It is refused if the
+  // mapping was saved again since the newest revision listed here.
+  const restore = useCallback(async (version: number) => {
+    const { sid } = await getDeviceSession();
+    try {
+      return await restoreMappingRevision(sid, version, {
+        baseVersion: revisions[0]?.version,
+        author: loadSettings().editorName || undefined
+      });
+    } finally {
+      await refresh();
+    }
+  }, [revisions, refresh]);
+
+  return { revisions, isLoading, error, refresh, changesIn, restore };
+}
+
+export type MappingHistory = ReturnType<typeof useMappingHistory>;
@@ -0,0 +1,85 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { BlinkEvent } from '@/engine/blinkStateMachine';
+import { createMorseDecoder, decodeMorse, DEFAULT_MORSE_TIMING, type MorseState } from '@/engine/morseDecoder';
+
+interface MorseInputOptions {
+  isActive: boolean;
+  // Called with the typed text when the user sends it; the buffer is then cleared
+  onSend?: (text: string) => void;
+  // Called when the eyes are held closed past the hold time, to accept a suggestion
+  onHold?: () => void;
+}
+
+// Morse typing on top of the detection engine's blink events: both-eye blinks
+// are dots and dashes, a left wink deletes, a right wink sends and a held
+// closure accepts the current suggestion.
+export function useMorseInput({ isActive, onSend, onHold }: MorseInputOptions) {
+  const decoderRef = useRef(createMorseDecoder());
+  const [state, setState] = useState<MorseState>({ text: '', code: '' });
+  const isActiveRef = useRef(isActive);
+  isActiveRef.current = isActive;
+  const onSendRef = useRef(onSend);
+  onSendRef.current = onSend;
+  const onHoldRef = useRef(onHold);
+  onHoldRef.current = onHold;
+
+  const sync = useCallback(() => setState(decoderRef.current.getState()), []);
+
+  // Letters and spaces are committed by pauses, so poll while typing
+  useEffect(() => {
+    if (!isActive) return;
+    const interval = setInterval(() => {
+      if (decoderRef.current.update(performance.now())) sync();
+    }, 100);
+    return () => clearInterval(interval);
+  }, [isActive, sync]);
+
+  const deleteLast = useCallback(() => {
+    decoderRef.current.deleteLast();
+    sync();
+  }, [sync]);
+
+  const setText = useCallback((text: string) => {
+    decoderRef.current.setText(text);
+    sync();
+  }, [sync]);
+
+  const clear = useCallback(() => {
+    decoderRef.current.clear();
+    sync();
+  }, [sync]);
+
+  const send = useCallback(() => {
+    // Commit a letter still being entered before sending
+    decoderRef.current.update(Infinity);
+    const text = decoderRef.current.getState().text.trim();
+    if (text) onSendRef.current?.(text);
+    clear();
+  }, [clear]);
+
+  const handleBlink = useCallback((blink: BlinkEvent) => {
+    if (!isActiveRef.current) return;
+    if (blink.eye === 'left') {
+      deleteLast();
+    } else if (blink.eye === 'right') {
+      send();
+    } else if (blink.duration >= DEFAULT_MORSE_TIMING.holdMs) {
+      onHoldRef.current?.();
+    } else {
+      decoderRef.current.addBlink(blink);
+      sync();
+    }
+  }, [deleteLast, send, sync]);
+
+  return {
+    text: state.text,
+    code: state.code,
+    // Letter the pending code would commit as, or null if it is not valid (yet)
+    candidate: state.code ? decodeMorse(state.code) : null,
+    handleBlink,
+    deleteLast,
+    send,
+    setText,
+    clear
+  };
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { GestureMapping } from '@/engine/phraseBoard';
+import type { SyncStatus } from '@/engine/mappingSync';
+import type { VersionedMapping } from '@/api/apiClient';
+import { adoptMapping, loadStoredMapping, storeMapping, syncMapping } from '@/utils/mappingStore';
+
+// Also pick up changes saved from other devices while this one stays open
+const SYNC_INTERVAL_MS = 60_000;
+
+// The gesture mapping, stored on the device and synced in the background.
+// `initial` is used until a stored mapping has loaded, or if there is none.
+export function usePersistentMapping(initial: GestureMapping) {
+  const [mapping, setMappingState] = useState<GestureMapping>(initial);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => (navigator.onLine ? 'synced' : 'offline'));
+  // An edit made before the stored mapping loaded is newer than it
+  const edited = useRef(false);
+
+  const sync = useCallback(async () => {
+    const result = await syncMapping();
+    if (result.mapping) setMappingState(result.mapping);
+    setSyncStatus(result.status);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStoredMapping().then(stored => {
+      if (cancelled) return;
+      if (stored && !edited.current) setMappingState(stored);
+      sync();
+    });
+
+    const handleOffline = () => setSyncStatus('offline');
+    window.addEventListener('online', sync);
+    window.addEventListener('offline', handleOffline);
+    const timer = setInterval(sync, SYNC_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', sync);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(timer);
+    };
+  }, [sync]);
+
+  const setMapping = useCallback((next: GestureMapping) => {
+    edited.current = true;
+    setMappingState(next);
+    setSyncStatus(navigator.onLine ? 'pending' : 'offline');
+    storeMapping(next).then(sync).catch(error => {
+      console.error('Failed to store mapping:', error);
+      setSyncStatus('error');
+    });
+  }, [sync]);
+
+  // A mapping the backend already has, e.g. a restored revision; it is not sent back
+  const adopt = useCallback(async (remote: VersionedMapping) => {
+    edited.current = true;
+    // Shown even if storing it locally fails; the next sync pulls it again
+    setMappingState(remote.mapping);
+    const result = await adoptMapping(remote);
+    setSyncStatus(result.status);
+  }, []);
+
+  return { mapping, setMapping, adopt, syncStatus, sync };
+}
@@ -0,0 +1,48 @@
+import { useState, useMemo, useCallback } from 'react';
+import {
+  DEFAULT_BACK_GESTURE,
+  flattenBoard,
+  getBoardAt,
+  getBoardLabels,
+  resolveGesture,
+  type GestureMapping
+} from '@/engine/phraseBoard';
+
+// Tracks which board of a phrase tree is open and what each gesture does there
+export function usePhraseBoard(root: GestureMapping, backGesture = DEFAULT_BACK_GESTURE) {
+  const [storedPath, setPath] = useState<string[]>([]);
+
+  const labels = useMemo(() => getBoardLabels(root, storedPath), [root, storedPath]);
+  // Edits to the tree can remove boards on the open path; stop at the deepest one left
+  const path = useMemo(() => storedPath.slice(0, labels.length - 1), [storedPath, labels]);
+  const board = useMemo(() => getBoardAt(root, path), [root, path]);
+  const activeMapping = useMemo(
+    () => flattenBoard(board, path.length > 0, backGesture),
+    [board, path, backGesture]
+  );
+
+  const enter = useCallback((gesture: string) => setPath([...path, gesture]), [path]);
+  const back = useCallback(() => setPath(path.slice(0, -1)), [path]);
+  const home = useCallback(() => setPath([]), []);
+  // Jump to an ancestor by its depth in the breadcrumbs (0 is the root)
+  const goTo = useCallback((depth: number) => setPath(path.slice(0, depth)), [path]);
+
+  const resolve = useCallback(
+    (gesture: string) => resolveGesture(root, path, gesture, backGesture),
+    [root, path, backGesture]
+  );
+
+  return {
+    path,
+    labels,
+    board,
+    activeMapping,
+    isSubBoard: path.length > 0,
+    backGesture,
+    resolve,
+    enter,
+    back,
+    home,
+    goTo
+  };
+}
@@ -0,0 +1,32 @@
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import type { PhrasePack } from '@/engine/phrasePack';
+import { installPack, listPacks, loadInstalledPacks, removePack, syncPhrasePacks } from '@/utils/phrasePackStorage';
+
+// Built-in and imported phrase packs, stored on the device and synced with the backend
+export function usePhrasePacks() {
+  const [installed, setInstalled] = useState(loadInstalledPacks);
+  const packs = useMemo(() => listPacks(installed), [installed]);
+
+  const sync = useCallback(async () => {
+    const result = await syncPhrasePacks();
+    if (result.packs) setInstalled(result.packs);
+  }, []);
+
+  useEffect(() => {
+    sync();
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, [sync]);
+
+  const install = useCallback((pack: PhrasePack) => {
+    setInstalled(installPack(pack));
+    sync();
+  }, [sync]);
+
+  const remove = useCallback((id: string) => {
+    setInstalled(removePack(id));
+    sync();
+  }, [sync]);
+
+  return { packs, install, remove };
+}
@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { getActiveEngineId } from '@/utils/speechSynthesis';
+import { onVoicesChanged, type TtsEngineId } from '@/utils/ttsEngines';
+
+// The speech engine phrases will be spoken with: undefined while checking,
+// null when no engine works. Re-checked when the engine settings change or
+// browser voices finish loading.
+export function useSpeechEngine(ttsEngine: string, ttsServerUrl: string) {
+  const [engineId, setEngineId] = useState<TtsEngineId | null | undefined>(undefined);
+  const [voicesVersion, setVoicesVersion] = useState(0);
+
+  useEffect(() => onVoicesChanged(() => setVoicesVersion(version => version + 1)), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    getActiveEngineId().then(id => {
+      if (!cancelled) setEngineId(id);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [ttsEngine, ttsServerUrl, voicesVersion]);
+
+  return engineId;
+}
@@ -0,0 +1,19 @@
+import { useState, useEffect, useCallback } from 'react';
+import { listClipPhrases } from '@/utils/voiceBank';
+
+// Phrases that have a recorded clip; call `refresh` after recording or deleting one
+export function useVoiceBank() {
+  const [phrases, setPhrases] = useState<Set<string>>(new Set());
+
+  const refresh = useCallback(async () => {
+    setPhrases(new Set(await listClipPhrases()));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const hasClip = useCallback((phrase: string) => phrases.has(phrase.trim()), [phrases]);
+
+  return { hasClip, refresh };
+}
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { getVoices, onVoicesChanged } from '@/utils/ttsEngines';
+
+// Voices the browser offers for speech output, updated once they finish loading
+export function useVoices() {
+  const [voices, setVoices] = useState(getVoices);
+
+  useEffect(() => {
+    setVoices(getVoices());
+    return onVoicesChanged(() => setVoices(getVoices()));
+  }, []);
+
+  return voices;
+}
@@ -0,0 +1,18 @@
+import { useState, useMemo, useCallback } from 'react';
+import { createWordPredictor } from '@/engine/wordPredictor';
+import { ENGLISH_WORDS } from '@/data/englishLexicon';
+import { loadPredictionHistory, recordSpokenText } from '@/utils/predictionHistory';
+
+// Suggestions for a typing buffer. `learn` records a spoken message so the
+// user's own words and sentences rank higher next time.
+export function useWordPrediction(buffer: string, limit = 3) {
+  const [history, setHistory] = useState(loadPredictionHistory);
+  const predictor = useMemo(() => createWordPredictor(ENGLISH_WORDS, history), [history]);
+  const predictions = useMemo(() => predictor.predict(buffer, limit), [predictor, buffer, limit]);
+
+  const learn = useCallback((text: string) => {
+    setHistory(recordSpokenText(text));
+  }, []);
+
+  return { predictions, learn };
+}
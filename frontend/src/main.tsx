@@ -1,5 +1,13 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { restoreLocalStorage } from './utils/localStore'
+import { SETTINGS_KEY } from './utils/settingsStorage'
+import { CALIBRATION_KEY } from './utils/calibrationStorage'
+import { DEVICE_SESSION_KEY } from './utils/deviceSession'
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Settings, calibration and the device session are read synchronously, so
+// restore them before the first render
+restoreLocalStorage([SETTINGS_KEY, CALIBRATION_KEY, DEVICE_SESSION_KEY]).finally(() => {
+  createRoot(document.getElementById("root")!).render(<App />);
+});
@@ -3,53 +3,130 @@ import Header from "@/components/landing/Header";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { CalibrationDots } from "@/components/calibration/CalibrationDots";
+import { BlinkCalibration } from "@/components/calibration/BlinkCalibration";
+import { CalibrationValidation } from "@/components/calibration/CalibrationValidation";
 import { Progress } from "@/components/ui/progress";
-import { CheckCircle, Eye, ArrowRight } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { CheckCircle, AlertTriangle, Eye, ArrowRight, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { saveCalibration } from "@/utils/calibrationStorage";
+import { startGazeTracking, stopGazeTracking } from "@/utils/gazeUtils";
+import {
+  computeGazeCalibration,
+  type GazeCalibrationPoint,
+  type GazeCalibrationResult
+} from "@/engine/gazeCalibration";
+import { getQualityLevel, type CalibrationQuality } from "@/engine/calibrationQuality";
+import type { EarCalibration } from "@/engine/earCalibration";
+
+const calibrationSteps = [
+  { id: 1, name: "Center", position: { x: 50, y: 50 } },
+  { id: 2, name: "Top Left", position: { x: 20, y: 20 } },
+  { id: 3, name: "Top Right", position: { x: 80, y: 20 } },
+  { id: 4, name: "Bottom Left", position: { x: 20, y: 80 } },
+  { id: 5, name: "Bottom Right", position: { x: 80, y: 80 } },
+];
 
 const Calibration = () => {
   const navigate = useNavigate();
+  const { toast } = useToast();
+  const [isBlinkCalibrated, setIsBlinkCalibrated] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
   const [isCalibrating, setIsCalibrating] = useState(false);
   const [calibrationComplete, setCalibrationComplete] = useState(false);
-  const [calibrationData, setCalibrationData] = useState<any[]>([]);
+  const [calibrationData, setCalibrationData] = useState<GazeCalibrationPoint[]>([]);
+  const [gazeResult, setGazeResult] = useState<GazeCalibrationResult | null>(null);
+  const [quality, setQuality] = useState<CalibrationQuality | null>(null);
+  const [showQualityWarning, setShowQualityWarning] = useState(false);
+
+  // Run WebGazer for the gaze dots so each fixation trains the model
+  useEffect(() => {
+    if (!isBlinkCalibrated) return;
+    let cancelled = false;
 
-  const calibrationSteps = [
-    { id: 1, name: "Center", position: { x: 50, y: 50 } },
-    { id: 2, name: "Top Left", position: { x: 20, y: 20 } },
-    { id: 3, name: "Top Right", position: { x: 80, y: 20 } },
-    { id: 4, name: "Bottom Left", position: { x: 20, y: 80 } },
-    { id: 5, name: "Bottom Right", position: { x: 80, y: 80 } },
-  ];
+    startGazeTracking()
+      .then(() => {
+        if (!cancelled) setIsCalibrating(true);
+      })
+      .catch(error => console.error('Failed to start gaze tracking:', error));
 
-  const handleCalibrationPoint = (pointData: any) => {
+    return () => {
+      cancelled = true;
+      stopGazeTracking();
+    };
+  }, [isBlinkCalibrated]);
+
+  const handleCalibrationPoint = (pointData: GazeCalibrationPoint) => {
     const newCalibrationData = [...calibrationData, pointData];
     setCalibrationData(newCalibrationData);
     
     if (currentStep < calibrationSteps.length - 1) {
       setCurrentStep(prev => prev + 1);
     } else {
-      setCalibrationComplete(true);
-      
-      // Calculate center point from all calibration points
-      const centerPoint = calibrationSteps.find(step => step.name === "Center");
-      const centerX = window.innerWidth * (centerPoint?.position.x || 50) / 100;
-      const centerY = window.innerHeight * (centerPoint?.position.y || 50) / 100;
+      setIsCalibrating(false);
       
-      // Store calibration data with proper center coordinates
-      const calibrationConfig = {
-        centerX,
-        centerY,
-        threshold: 100,
-        points: newCalibrationData,
-        timestamp: Date.now()
-      };
+      // Learn the gaze centre and per-direction thresholds from the collected predictions
+      const result = computeGazeCalibration(newCalibrationData, {
+        x: window.innerWidth,
+        y: window.innerHeight
+      });
+      setGazeResult(result);
       
-      localStorage.setItem('blinkSpeechCalibration', JSON.stringify(calibrationConfig));
-      console.log('Calibration saved:', calibrationConfig);
+      saveCalibration({
+        centerX: result.centerX,
+        centerY: result.centerY,
+        threshold: Math.max(...Object.values(result.thresholds)),
+        gazeThresholds: result.thresholds,
+        points: result.points
+      });
+    }
+  };
+
+  const handleBlinkCalibration = (blink: EarCalibration | null) => {
+    // Skipping keeps any personal thresholds learned in an earlier calibration
+    if (blink) {
+      saveCalibration({ blink });
     }
+    setIsBlinkCalibrated(true);
+  };
+
+  const handleValidation = (result: CalibrationQuality) => {
+    setQuality(result);
+    saveCalibration({ quality: result });
+    setCalibrationComplete(true);
+  };
+
+  const restartCalibration = () => {
+    setShowQualityWarning(false);
+    setIsBlinkCalibrated(false);
+    setCurrentStep(0);
+    setCalibrationData([]);
+    setGazeResult(null);
+    setQuality(null);
+    setCalibrationComplete(false);
   };
 
   const startSession = () => {
+    const level = quality ? getQualityLevel(quality.score) : 'poor';
+    if (level === 'poor' && !showQualityWarning) {
+      setShowQualityWarning(true);
+      return;
+    }
+    if (level === 'fair') {
+      toast({
+        title: "Calibration could be better",
+        description: "Detection may be less reliable. You can recalibrate from the session at any time."
+      });
+    }
     navigate('/session');
   };
 
@@ -60,7 +137,17 @@ const Calibration = () => {
       <Header />
       <main className="flex-1 flex flex-col items-center justify-center p-6 pt-24">
         <div className="max-w-4xl mx-auto w-full">
-          {!calibrationComplete ? (
+          {!isBlinkCalibrated ? (
+            <>
+              <div className="mb-8 flex items-center justify-center">
+                <Eye className="w-8 h-8 text-primary mr-3" />
+                <span className="text-xl font-medium">Blink Calibration</span>
+              </div>
+              <div className="w-full bg-card rounded-lg border shadow-soft p-8">
+                <BlinkCalibration onComplete={handleBlinkCalibration} />
+              </div>
+            </>
+          ) : !gazeResult ? (
             <>
               <div className="mb-8">
                 <div className="flex items-center justify-center mb-4">
@@ -88,10 +175,22 @@ const Calibration = () => {
                 </p>
               </div>
             </>
+          ) : !calibrationComplete ? (
+            <>
+              <div className="mb-8 flex items-center justify-center">
+                <Eye className="w-8 h-8 text-primary mr-3" />
+                <span className="text-xl font-medium">Checking Calibration</span>
+              </div>
+              <CalibrationValidation onComplete={handleValidation} />
+            </>
           ) : (
             <div className="text-center">
               <div className="mb-6">
-                <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+                {quality && getQualityLevel(quality.score) === 'poor' ? (
+                  <AlertTriangle className="w-16 h-16 text-amber-500 mx-auto mb-4" />
+                ) : (
+                  <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+                )}
                 <h2 className="text-2xl font-bold text-foreground mb-2">
                   Calibration Complete!
                 </h2>
@@ -100,17 +199,76 @@ const Calibration = () => {
                 </p>
               </div>
 
-              <Button 
-                size="lg" 
-                variant="default"
-                onClick={startSession}
-                className="gap-2"
-              >
-                Start Session
-                <ArrowRight className="w-5 h-5" />
-              </Button>
+              {quality && (
+                <div className="mb-6 space-y-1">
+                  <div className="text-lg font-semibold text-foreground">
+                    Quality score: {quality.score}/100
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    Gaze error {Math.round(quality.gazeError)}px · Blinks detected {Math.round(quality.blinkHitRate * 100)}%
+                  </div>
+                </div>
+              )}
+
+              {gazeResult && (
+                <div className="mb-8 max-w-md mx-auto text-left">
+                  <h3 className="text-sm font-medium text-foreground mb-2">Accuracy per point</h3>
+                  <div className="space-y-2">
+                    {gazeResult.points.map(point => (
+                      <div key={point.name} className="flex items-center gap-3 text-sm">
+                        <span className="w-28 text-muted-foreground">{point.name}</span>
+                        <Progress value={point.accuracy} className="flex-1" />
+                        <span className="w-24 text-right text-muted-foreground">
+                          {point.sampleCount > 0 ? `${Math.round(point.accuracy)}%` : 'No data'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-center gap-3">
+                <Button 
+                  size="lg" 
+                  variant="outline"
+                  onClick={restartCalibration}
+                  className="gap-2"
+                >
+                  <RotateCcw className="w-5 h-5" />
+                  Recalibrate
+                </Button>
+                <Button 
+                  size="lg" 
+                  variant="default"
+                  onClick={startSession}
+                  className="gap-2"
+                >
+                  Start Session
+                  <ArrowRight className="w-5 h-5" />
+                </Button>
+              </div>
             </div>
           )}
+
+          <AlertDialog open={showQualityWarning} onOpenChange={setShowQualityWarning}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Calibration quality is low</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Gaze and blink detection did not perform well during validation, so gestures
+                  may be missed or misread. We recommend recalibrating before starting.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel onClick={() => navigate('/session')}>
+                  Continue Anyway
+                </AlertDialogCancel>
+                <AlertDialogAction onClick={restartCalibration}>
+                  Recalibrate
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
         </div>
       </main>
     </div>
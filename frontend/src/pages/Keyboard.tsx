@@ -0,0 +1,235 @@
+import { useState, useEffect, useRef, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScanningKeyboard } from "@/components/keyboard/ScanningKeyboard";
+import { keyboardRows, predictionKeys, type KeyboardKey } from "@/components/keyboard/keyboardLayout";
+import { ArrowLeft, Play, Square, Volume2 } from "lucide-react";
+import { useDetectionEngine } from "@/hooks/useDetectionEngine";
+import { useWordPrediction } from "@/hooks/useWordPrediction";
+import { createKeyboardScanner, type ScanPosition } from "@/engine/keyboardScanner";
+import type { GazeDirection } from "@/utils/gazeUtils";
+import { speakPhrase } from "@/utils/speechSynthesis";
+import { loadSettings, saveSettings, type AppSettings } from "@/utils/settingsStorage";
+
+const Keyboard = () => {
+  const navigate = useNavigate();
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [isActive, setIsActive] = useState(false);
+  const [buffer, setBuffer] = useState("");
+  const [position, setPosition] = useState<ScanPosition | null>(null);
+
+  const { predictions, learn } = useWordPrediction(buffer);
+  const rows = useMemo(() => [predictionKeys(predictions), ...keyboardRows], [predictions]);
+  const scannerRef = useRef(createKeyboardScanner(rows.map(row => row.length)));
+  const eyesClosed = useRef(false);
+  const gazeDirection = useRef<GazeDirection>("center");
+  const isGaze = settings.keyboardInput === "gaze";
+
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const speakBuffer = () => {
+    const text = buffer.trim();
+    if (!text) return;
+    speakPhrase(text);
+    learn(text);
+  };
+
+  const pressKey = (key: KeyboardKey) => {
+    switch (key.action) {
+      case "space":
+        setBuffer(prev => (prev && !prev.endsWith(" ") ? prev + " " : prev));
+        break;
+      case "backspace":
+        setBuffer(prev => prev.slice(0, -1));
+        break;
+      case "clear":
+        setBuffer("");
+        break;
+      case "speak":
+        speakBuffer();
+        break;
+      case "predict":
+        if (key.value) setBuffer(key.value);
+        break;
+      default:
+        setBuffer(prev => prev + (key.value ?? ""));
+    }
+  };
+
+  const { videoRef, isInitialized, startCamera, stopCamera } = useDetectionEngine({
+    isActive,
+    trackGaze: isGaze,
+    gazeSource: settings.gazeSource,
+    onFrame: (result) => {
+      eyesClosed.current = result.phase !== "open";
+      gazeDirection.current = result.gazeDirection;
+    },
+    onBlink: (blink) => {
+      // Winks are left for other uses; a blink of both eyes selects
+      if (blink.eye !== "both") return;
+      const scanner = scannerRef.current;
+      const selection = scanner.select();
+      if (selection) {
+        pressKey(rows[selection.row][selection.key]);
+        scanner.reset(isGaze ? "keys" : "rows");
+      }
+      setPosition(scanner.getPosition());
+    }
+  });
+
+  useEffect(() => {
+    if (isInitialized) {
+      startCamera();
+    }
+  }, [isInitialized, startCamera]);
+
+  useEffect(() => {
+    const scanner = scannerRef.current;
+    if (!isActive) {
+      setPosition(null);
+      return;
+    }
+
+    scanner.reset(isGaze ? "keys" : "rows");
+    setPosition(scanner.getPosition());
+
+    const interval = setInterval(() => {
+      // Hold the highlight while the eyes are closed so a blink selects what was lit when it began
+      if (eyesClosed.current) return;
+      if (isGaze) {
+        if (gazeDirection.current === "center") return;
+        setPosition(scanner.move(gazeDirection.current));
+      } else {
+        setPosition(scanner.advance());
+      }
+    }, settings.scanIntervalMs);
+
+    return () => clearInterval(interval);
+  }, [isActive, isGaze, settings.scanIntervalMs]);
+
+  const toggleActive = () => {
+    setIsActive(!isActive);
+  };
+
+  const leave = () => {
+    stopCamera();
+    navigate("/session");
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-gentle">
+      <main className="pt-6 px-6 lg:px-8 xl:px-12 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">Keyboard</h1>
+            <p className="text-lg text-muted-foreground">
+              {isGaze ? "Look to move, blink to type" : "Blink when your row, then your key, lights up"}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" onClick={leave} className="gap-2 hover:bg-white/80 transition-colors">
+              <ArrowLeft className="w-4 h-4" />
+              Session
+            </Button>
+            <Button
+              variant={isActive ? "destructive" : "default"}
+              size="sm"
+              onClick={toggleActive}
+              className="gap-2 font-semibold"
+              disabled={!isInitialized}
+            >
+              {isActive ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              {isActive ? "Stop" : "Start"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="max-w-6xl mx-auto grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardContent className="p-6 flex items-center gap-4">
+                <p className="flex-1 min-h-[48px] text-3xl font-bold text-foreground break-words">
+                  {buffer || <span className="text-xl font-normal text-muted-foreground">Start typing...</span>}
+                  {isActive && <span className="animate-pulse text-primary">|</span>}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={speakBuffer}
+                  disabled={!buffer.trim()}
+                  className="gap-2"
+                >
+                  <Volume2 className="w-4 h-4" />
+                  Speak
+                </Button>
+              </CardContent>
+            </Card>
+
+            <ScanningKeyboard rows={rows} position={position} onKeyPress={pressKey} />
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Input</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <RadioGroup
+                  value={settings.keyboardInput}
+                  onValueChange={(value) => updateSettings({ keyboardInput: value as AppSettings["keyboardInput"] })}
+                  className="space-y-2"
+                >
+                  <div className="flex items-center gap-3">
+                    <RadioGroupItem value="scan" id="keyboard-scan" />
+                    <Label htmlFor="keyboard-scan">Row-column scanning</Label>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <RadioGroupItem value="gaze" id="keyboard-gaze" />
+                    <Label htmlFor="keyboard-gaze">Gaze direction</Label>
+                  </div>
+                </RadioGroup>
+
+                <div className="space-y-2">
+                  <Label className="text-sm">
+                    {isGaze ? "Cursor step" : "Scan rate"}: {(settings.scanIntervalMs / 1000).toFixed(1)}s
+                  </Label>
+                  <Slider
+                    min={400}
+                    max={3000}
+                    step={100}
+                    value={[settings.scanIntervalMs]}
+                    onValueChange={([value]) => updateSettings({ scanIntervalMs: value })}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-2">
+                <video
+                  ref={videoRef}
+                  autoPlay
+                  muted
+                  playsInline
+                  className="w-full rounded-lg bg-black"
+                  style={{ transform: 'scaleX(-1)' }}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Keyboard;
@@ -1,84 +1,187 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { GestureGrid } from "@/components/session/GestureGrid";
 import { PhrasePreview } from "@/components/session/PhrasePreview";
 import { MappingEditor } from "@/components/session/MappingEditor";
-import { Settings, Mic, MicOff, RotateCcw, Eye, EyeOff, Camera, Play, Square } from "lucide-react";
+import { MorseStrip } from "@/components/session/MorseStrip";
+import { SettingsPanel } from "@/components/session/SettingsPanel";
+import { BoardBreadcrumbs } from "@/components/session/BoardBreadcrumbs";
+import { PhrasePackPicker } from "@/components/session/PhrasePackPicker";
+import { EmergencyAlertBanner } from "@/components/session/EmergencyAlertBanner";
+import { DebugPanel } from "@/components/DebugPanel";
+import { Settings, Mic, MicOff, RotateCcw, Eye, EyeOff, Camera, Play, Square, Bug, AlertTriangle, SlidersHorizontal, Type, Keyboard } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useGestureSpeech } from "@/hooks/useGestureSpeech";
+import { useMorseInput } from "@/hooks/useMorseInput";
+import { useWordPrediction } from "@/hooks/useWordPrediction";
+import { usePhraseBoard } from "@/hooks/usePhraseBoard";
+import { usePhrasePacks } from "@/hooks/usePhrasePacks";
+import { useSpeechEngine } from "@/hooks/useSpeechEngine";
+import { useEmergencyAlert } from "@/hooks/useEmergencyAlert";
+import { useCaregiverContacts } from "@/hooks/useCaregiverContacts";
+import { usePersistentMapping } from "@/hooks/usePersistentMapping";
+import {
+  speakPhrase,
+  cancelSpeech,
+  configureSpeech,
+  repeatLastPhrase,
+  getLastPhrase,
+  type SpeakOptions
+} from "@/utils/speechSynthesis";
+import { loadCalibration } from "@/utils/calibrationStorage";
+import { loadSettings, saveSettings, type AppSettings } from "@/utils/settingsStorage";
+import { getCalibrationStatus } from "@/engine/calibrationQuality";
+import type { GestureMapping } from "@/engine/phraseBoard";
+import type { PhrasePack } from "@/engine/phrasePack";
+import { BUILT_IN_PHRASE_PACKS } from "@/data/phrasePacks";
+
+const calibrationNotices = {
+  missing: "You haven't calibrated yet. Calibrating improves blink and gaze detection.",
+  stale: "Your calibration is more than a week old and may no longer match your setup.",
+  weak: "Your last calibration scored poorly, so gestures may be missed or misread."
+};
+
+// Shown when phrases cannot use browser voices
+const speechEngineNotices = {
+  offline: "This browser has no speech voices, so phrases use the bundled offline voice.",
+  server: "This browser has no speech voices, so phrases use the local TTS server.",
+  none: "No speech engine is available: this browser has no voices, and neither the offline voice nor a local TTS server could be reached."
+};
+
+// Mapping used while Morse typing so blinks are not read as phrase gestures
+const noGestures: Record<string, string> = {};
 
 const Session = () => {
   const { toast } = useToast();
+  const navigate = useNavigate();
   
   // State variables
   const [currentPhrase, setCurrentPhrase] = useState("");
   const [detectedGesture, setDetectedGesture] = useState("");
   const [isSpeechEnabled, setIsSpeechEnabled] = useState(true);
-  const [autoSpeak, setAutoSpeak] = useState(false);
+  const [autoSpeak, setAutoSpeak] = useState(true);
   const [showCamera, setShowCamera] = useState(true);
   const [showMappingEditor, setShowMappingEditor] = useState(false);
+  const [showDebug, setShowDebug] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [isMorseMode, setIsMorseMode] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [calibrationStatus] = useState(() => getCalibrationStatus(loadCalibration()));
+  const [showCalibrationNotice, setShowCalibrationNotice] = useState(calibrationStatus !== 'ok');
+  const speechEngine = useSpeechEngine(settings.ttsEngine, settings.ttsServerUrl);
+  const [showSpeechNotice, setShowSpeechNotice] = useState(true);
+  // Fallbacks are only news when browser voices were expected
+  const speechNotice = speechEngine === null
+    ? speechEngineNotices.none
+    : speechEngine && speechEngine !== 'webSpeech' && (settings.ttsEngine === 'auto' || settings.ttsEngine === 'webSpeech')
+      ? speechEngineNotices[speechEngine]
+      : null;
   const [cameraPermission, setCameraPermission] = useState<'granted' | 'denied' | 'pending'>('pending');
   const [isDetectionActive, setIsDetectionActive] = useState(false);
-  const [gestureMapping, setGestureMapping] = useState<Record<string, string>>({
-    "singleBlink": "Hello",
-    "doubleBlink": "Yes",
-    "tripleBlink": "No",
-    "longBlink": "Thank you",
-    "singleBlink_lookLeft": "I need help",
-    "singleBlink_lookRight": "I'm okay",
-    "doubleBlink_lookUp": "Water please",
-    "doubleBlink_lookDown": "I'm tired"
+  const phrasePacks = usePhrasePacks();
+  const activePack = phrasePacks.packs.find(pack => pack.id === settings.phrasePackId) ?? BUILT_IN_PHRASE_PACKS[0];
+  const {
+    mapping: gestureMapping,
+    setMapping: setGestureMapping,
+    adopt: adoptMapping,
+    syncStatus: mappingSyncStatus
+  } = usePersistentMapping(activePack.mapping);
+  const board = usePhraseBoard(gestureMapping, settings.backGesture);
+  const caregiverContacts = useCaregiverContacts();
+  const emergency = useEmergencyAlert(settings, caregiverContacts.contacts);
+
+  // Navigate the phrase boards; returns the phrase to say, if the gesture has one.
+  // Speaking a phrase from a sub-board returns to the home board.
+  const { resolve: resolveOnBoard, back: boardBack, enter: enterBoard, home: boardHome } = board;
+  const applyGesture = useCallback((gesture: string): string | null => {
+    if (gesture === settings.repeatGesture) {
+      if (isSpeechEnabled) repeatLastPhrase();
+      setCurrentPhrase(getLastPhrase() ?? "");
+      return null;
+    }
+
+    const action = resolveOnBoard(gesture);
+    switch (action.type) {
+      case 'back':
+        boardBack();
+        return null;
+      case 'board':
+        enterBoard(gesture);
+        return null;
+      case 'phrase':
+        setCurrentPhrase(action.phrase);
+        boardHome();
+        return action.phrase;
+      default:
+        console.log('❌ No phrase found for gesture:', gesture);
+        return null;
+    }
+  }, [settings.repeatGesture, isSpeechEnabled, resolveOnBoard, boardBack, enterBoard, boardHome]);
+
+  // Morse typing reads raw blinks; gestures are switched off while it is on
+  const morse = useMorseInput({
+    isActive: isMorseMode && isDetectionActive,
+    onSend: (text) => {
+      setCurrentPhrase(text);
+      speakText(text);
+      prediction.learn(text);
+      toast({
+        title: "Message Sent",
+        description: `"${text}"`
+      });
+    },
+    onHold: () => {
+      if (prediction.predictions[0]) morse.setText(prediction.predictions[0].text);
+    }
   });
+  const prediction = useWordPrediction(morse.text);
+  const learnPhrase = prediction.learn;
+
+  // Gestures the detector listens for: the open board plus the repeat command
+  const detectionMapping = useMemo(
+    () => settings.repeatGesture
+      ? { ...board.activeMapping, [settings.repeatGesture]: 'Repeat' }
+      : board.activeMapping,
+    [board.activeMapping, settings.repeatGesture]
+  );
 
   // Hook for gesture speech functionality
   const hookOptions = useMemo(() => ({
     onGestureDetected: (gesture: string) => {
       console.log('🎯 Gesture detected:', gesture);
-      console.log('📋 Current gesture mapping:', gestureMapping);
-      console.log('🔍 Looking for phrase for gesture:', gesture);
-      
       setDetectedGesture(gesture);
-      const phrase = gestureMapping[gesture];
-      
-      if (phrase) {
-        console.log('📝 Phrase found:', phrase);
-        setCurrentPhrase(phrase);
-        
-        // Auto-speak if enabled
-        if (autoSpeak && isSpeechEnabled) {
-          console.log('🗣️ Auto-speaking phrase:', phrase);
-          console.log('Speech state:', { autoSpeak, isSpeechEnabled });
-          const speechResult = speakText(phrase);
-          console.log('Speech result:', speechResult);
-        } else {
-          console.log('Auto-speak disabled:', { autoSpeak, isSpeechEnabled });
-        }
-      } else {
-        console.log('❌ No phrase found for gesture:', gesture);
-        console.log('Available gestures:', Object.keys(gestureMapping));
-        console.log('Available phrases:', Object.values(gestureMapping));
-      }
     },
+    resolvePhrase: applyGesture,
     onPhraseSpoken: (phrase: string) => {
       console.log('Phrase spoken callback:', phrase);
       setCurrentPhrase(phrase);
-      
-      // Also auto-speak from this callback if enabled
-      if (autoSpeak && isSpeechEnabled) {
-        console.log('🗣️ Auto-speaking from phrase callback:', phrase);
-        speakText(phrase);
-      }
+      // Predictions learn from everything the user says, not only typed messages
+      learnPhrase(phrase);
     },
+    // The hook is the only place detected phrases are spoken
+    speak: autoSpeak && isSpeechEnabled,
+    gazeSource: settings.gazeSource,
+    dwellGestures: settings.dwellGestures,
+    dwellMs: settings.dwellMs,
+    dwellCooldownMs: settings.dwellCooldownMs,
+    onBlink: morse.handleBlink,
+    emergencyGesture: settings.emergencyGesture,
+    emergencyHoldMs: settings.emergencyHoldMs,
+    onEmergency: emergency.trigger,
     isActive: isDetectionActive
-  }), [autoSpeak, isSpeechEnabled, isDetectionActive]);
+  }), [autoSpeak, isSpeechEnabled, isDetectionActive, settings, morse.handleBlink, applyGesture, emergency.trigger, learnPhrase]);
 
   const {
     videoRef,
     isInitialized,
+    thresholdState,
+    dwellState,
     startCamera,
     stopCamera,
     resetDetection
-  } = useGestureSpeech(gestureMapping, hookOptions);
+  } = useGestureSpeech(isMorseMode ? noGestures : detectionMapping, hookOptions);
 
   // Debug the hook options being passed
   useEffect(() => {
@@ -121,7 +224,7 @@ const Session = () => {
   };
 
   // Handle mapping updates
-  const handleMappingUpdate = (newMapping: Record<string, string>) => {
+  const handleMappingUpdate = (newMapping: GestureMapping) => {
     setGestureMapping(newMapping);
     toast({
       title: "Mapping Updated",
@@ -129,42 +232,57 @@ const Session = () => {
     });
   };
 
-  // Robust speech synthesis function
-  const speakText = (text: string) => {
+  // Handle settings updates
+  const handleSettingsUpdate = (newSettings: AppSettings) => {
+    setSettings(newSettings);
+    saveSettings(newSettings);
+    configureSpeech(newSettings);
+  };
+
+  // Switch phrase pack; speech follows the pack's language. The user's own
+  // mapping is only replaced by the pack's when they confirmed it.
+  const selectPack = (pack: PhrasePack, usePhrases: boolean) => {
+    if (usePhrases) {
+      setGestureMapping(pack.mapping);
+      board.home();
+    }
+    handleSettingsUpdate({ ...settings, phrasePackId: pack.id, speechLanguage: pack.language });
+  };
+
+  const handleImportPack = (pack: PhrasePack) => {
+    phrasePacks.install(pack);
+    toast({
+      title: "Phrase Pack Installed",
+      description: `${pack.name} (${pack.language}) can now be selected`
+    });
+  };
+
+  // Removing an imported pack falls back to the built-in with the same id, or English
+  const handleRemovePack = (id: string) => {
+    phrasePacks.remove(id);
+    selectPack(BUILT_IN_PHRASE_PACKS.find(pack => pack.id === id) ?? BUILT_IN_PHRASE_PACKS[0], false);
+  };
+
+  // Speak through the shared speech path, respecting the mute toggle
+  const speakText = (text: string, options?: SpeakOptions) => {
     console.log('🎤 speakText called with:', text);
-    console.log('Speech state:', { isSpeechEnabled, autoSpeak });
-    
-    if (!isSpeechEnabled || !('speechSynthesis' in window)) {
-      console.log('❌ Speech synthesis not available or disabled');
+    if (!isSpeechEnabled) {
+      console.log('❌ Speech disabled');
       return false;
     }
-    
-    try {
-      console.log('🔧 Setting up speech synthesis...');
-      // Cancel any ongoing speech
-      speechSynthesis.cancel();
-      
-      // Create new utterance
-      const utterance = new SpeechSynthesisUtterance(text);
-      
-      // Configure speech settings
-      utterance.rate = 1.0;
-      utterance.volume = 1.0;
-      utterance.pitch = 1.0;
-      utterance.lang = 'en-US';
-      
-      // Add event handlers for debugging
-      utterance.onstart = () => console.log('🔊 Speech started:', text);
-      utterance.onend = () => console.log('🔇 Speech ended:', text);
-      utterance.onerror = (e) => console.error('❌ Speech error:', e);
-      
-      // Speak the text
-      speechSynthesis.speak(utterance);
-      console.log('✅ Speech synthesis triggered successfully:', text);
-      return true;
-    } catch (error) {
-      console.error('❌ Speech synthesis error:', error);
-      return false;
+    return speakPhrase(text, options);
+  };
+
+  // The Speak button is a deliberate request, so it is never dropped as a repeat
+  const speakCurrentPhrase = () => speakText(currentPhrase, { settings: { duplicateWindowMs: 0 } });
+
+  // Manually trigger a gesture from the grid or debug panel
+  const handleManualGesture = (gesture: string) => {
+    setDetectedGesture(gesture);
+    const phrase = applyGesture(gesture);
+    if (phrase) learnPhrase(phrase);
+    if (phrase && isSpeechEnabled) {
+      speakText(phrase);
     }
   };
 
@@ -174,12 +292,20 @@ const Session = () => {
     setIsSpeechEnabled(newState);
     console.log('Speech toggled:', newState ? 'ON' : 'OFF');
     
-    if (!newState && 'speechSynthesis' in window) {
-      speechSynthesis.cancel(); // Stop any ongoing speech
+    if (!newState) {
+      cancelSpeech(); // Stop any ongoing speech
       console.log('Speech cancelled');
     }
   };
 
+  // Switch between phrase gestures and Morse typing
+  const toggleMorseMode = () => {
+    morse.clear();
+    setDetectedGesture("");
+    setCurrentPhrase("");
+    setIsMorseMode(!isMorseMode);
+  };
+
   // Toggle camera display
   const toggleCameraDisplay = async () => {
     console.log('Toggle camera display clicked. Current state:', { showCamera, cameraPermission, isDetectionActive });
@@ -221,6 +347,7 @@ const Session = () => {
       stopCamera();
       setDetectedGesture("");
       setCurrentPhrase("");
+      board.home();
       setShowCamera(false); // Hide camera when stopping detection
       console.log('Detection stopped');
     } else {
@@ -397,7 +524,7 @@ const Session = () => {
               <Button 
                 variant="outline" 
                 size="sm" 
-                onClick={() => speakText(currentPhrase)}
+                onClick={speakCurrentPhrase}
                 className="gap-2 hover:bg-white/80 transition-colors"
                 disabled={!isSpeechEnabled}
               >
@@ -426,6 +553,46 @@ const Session = () => {
                 Edit Mappings
               </Button>
               
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => setShowSettings(!showSettings)}
+                className={`gap-2 transition-colors ${showSettings ? 'bg-primary/10 border-primary/30 hover:bg-primary/20' : 'hover:bg-white/80'}`}
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                Settings
+              </Button>
+              
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={toggleMorseMode}
+                className={`gap-2 transition-colors ${isMorseMode ? 'bg-primary/10 border-primary/30 hover:bg-primary/20' : 'hover:bg-white/80'}`}
+              >
+                <Type className="w-4 h-4" />
+                Morse
+              </Button>
+              
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => navigate('/keyboard')}
+                className="gap-2 hover:bg-white/80 transition-colors"
+              >
+                <Keyboard className="w-4 h-4" />
+                Keyboard
+              </Button>
+              
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => setShowDebug(!showDebug)}
+                className={`gap-2 transition-colors ${showDebug ? 'bg-primary/10 border-primary/30 hover:bg-primary/20' : 'hover:bg-white/80'}`}
+              >
+                <Bug className="w-4 h-4" />
+                Debug
+              </Button>
+              
 
             </div>
           </div>
@@ -495,7 +662,7 @@ const Session = () => {
               <Button 
                 variant="outline" 
                 size="sm" 
-                onClick={() => speakText(currentPhrase)}
+                onClick={speakCurrentPhrase}
                 className="gap-1 text-xs"
                 disabled={!isSpeechEnabled}
               >
@@ -524,6 +691,46 @@ const Session = () => {
               Edit
             </Button>
             
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={() => setShowSettings(!showSettings)}
+              className={`gap-1 text-xs ${showSettings ? 'bg-primary/10 border-primary/30' : ''}`}
+            >
+              <SlidersHorizontal className="w-3 h-3" />
+              Settings
+            </Button>
+            
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={toggleMorseMode}
+              className={`gap-1 text-xs ${isMorseMode ? 'bg-primary/10 border-primary/30' : ''}`}
+            >
+              <Type className="w-3 h-3" />
+              Morse
+            </Button>
+            
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={() => navigate('/keyboard')}
+              className="gap-1 text-xs"
+            >
+              <Keyboard className="w-3 h-3" />
+              Keyboard
+            </Button>
+            
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={() => setShowDebug(!showDebug)}
+              className={`gap-1 text-xs ${showDebug ? 'bg-primary/10 border-primary/30' : ''}`}
+            >
+              <Bug className="w-3 h-3" />
+              Debug
+            </Button>
+            
 
           </div>
           
@@ -585,6 +792,15 @@ const Session = () => {
           </div>
         )}
 
+        {showDebug && (
+          <DebugPanel
+            isActive={isDetectionActive}
+            videoRef={videoRef}
+            onManualTrigger={handleManualGesture}
+            thresholdState={thresholdState}
+          />
+        )}
+
         {/* Debug Info
         <div className="max-w-6xl mx-auto mx-6 lg:mx-8 xl:mx-12 mb-6">
           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
@@ -600,36 +816,131 @@ const Session = () => {
           </div>
         </div> */}
 
+        {emergency.status !== 'idle' && (
+          <div className="max-w-6xl mx-auto mb-6 mx-6 lg:mx-8 xl:mx-12">
+            <EmergencyAlertBanner
+              alert={emergency}
+              countdownS={settings.emergencyCountdownS}
+              onCancel={emergency.cancel}
+              onSendNow={emergency.sendNow}
+              onRetry={emergency.retry}
+              onDismiss={emergency.dismiss}
+            />
+          </div>
+        )}
+
+        {showCalibrationNotice && calibrationStatus !== 'ok' && (
+          <div className="max-w-6xl mx-auto mb-6 mx-6 lg:mx-8 xl:mx-12">
+            <Alert className="bg-amber-50 border-amber-200">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Recalibration recommended</AlertTitle>
+              <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+                <span>{calibrationNotices[calibrationStatus]}</span>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => navigate('/calibration')}>
+                    Recalibrate
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setShowCalibrationNotice(false)}>
+                    Dismiss
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          </div>
+        )}
+
+        {showSpeechNotice && speechNotice && (
+          <div className="max-w-6xl mx-auto mb-6 mx-6 lg:mx-8 xl:mx-12">
+            <Alert className="bg-amber-50 border-amber-200">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>{speechEngine ? "Using a fallback voice" : "Speech unavailable"}</AlertTitle>
+              <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+                <span>{speechNotice}</span>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setShowSettings(true)}>
+                    Speech Settings
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setShowSpeechNotice(false)}>
+                    Dismiss
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          </div>
+        )}
+
         <div className="max-w-6xl mx-auto space-y-6 p-6 bg-white/40 backdrop-blur-sm rounded-xl border border-white/20 mx-6 lg:mx-8 xl:mx-12">
-          <PhrasePreview 
-            currentPhrase={currentPhrase}
-            detectedGesture={detectedGesture}
-          />
+          {isMorseMode ? (
+            <PhrasePreview 
+              currentPhrase={morse.text.trim() || currentPhrase}
+              detectedGesture=""
+              title={morse.text ? "Typing" : "Last Sent"}
+              emptyMessage="Blink in Morse code to type a message"
+            />
+          ) : (
+            <PhrasePreview 
+              currentPhrase={currentPhrase}
+              detectedGesture={detectedGesture}
+            />
+          )}
           
           <div className="grid lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2">
-              <GestureGrid 
-                gestureMapping={gestureMapping}
-                detectedGesture={detectedGesture}
-                onGestureDetected={(gesture) => {
-                  setDetectedGesture(gesture);
-                  const phrase = gestureMapping[gesture];
-                  if (phrase) {
-                    setCurrentPhrase(phrase);
-                    if (isSpeechEnabled) {
-                      speakText(phrase);
-                    }
-                  }
-                }}
-              />
+              {isMorseMode ? (
+                <MorseStrip
+                  code={morse.code}
+                  candidate={morse.candidate}
+                  predictions={prediction.predictions}
+                  onPredictionSelect={(selected) => morse.setText(selected.text)}
+                  onDelete={morse.deleteLast}
+                  onSend={morse.send}
+                  onClear={morse.clear}
+                />
+              ) : (
+                <div className="space-y-4">
+                  <PhrasePackPicker
+                    packs={phrasePacks.packs}
+                    activePack={activePack}
+                    currentMapping={gestureMapping}
+                    onSelect={selectPack}
+                    onImport={handleImportPack}
+                    onRemove={handleRemovePack}
+                  />
+                  <BoardBreadcrumbs
+                    labels={board.labels}
+                    onNavigate={board.goTo}
+                  />
+                  <GestureGrid 
+                    gestureMapping={board.board}
+                    backGesture={board.isSubBoard ? board.backGesture : undefined}
+                    repeatGesture={settings.repeatGesture}
+                    gestureLabels={activePack.gestureLabels}
+                    detectedGesture={detectedGesture}
+                    dwell={dwellState}
+                    onGestureDetected={handleManualGesture}
+                  />
+                </div>
+              )}
             </div>
             
-            {showMappingEditor && (
-              <div className="lg:col-span-1">
-                <MappingEditor 
-                  currentMapping={gestureMapping}
-                  onMappingUpdate={handleMappingUpdate}
-                />
+            {(showMappingEditor || showSettings) && (
+              <div className="lg:col-span-1 space-y-6">
+                {showSettings && (
+                  <SettingsPanel
+                    settings={settings}
+                    onSettingsUpdate={handleSettingsUpdate}
+                    contacts={caregiverContacts}
+                  />
+                )}
+                {showMappingEditor && (
+                  <MappingEditor 
+                    currentMapping={gestureMapping}
+                    onMappingUpdate={handleMappingUpdate}
+                    backGesture={settings.backGesture}
+                    syncStatus={mappingSyncStatus}
+                    onMappingRestored={adoptMapping}
+                  />
+                )}
               </div>
             )}
           </div>
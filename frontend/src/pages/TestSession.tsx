@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useSimpleBlinkDetection } from '@/hooks/useSimpleBlinkDetection';
+import { speakPhrase } from '@/utils/speechSynthesis';
 import { Mic, MicOff, Eye, EyeOff, Play, Square } from 'lucide-react';
 
 const TestSession = () => {
@@ -33,13 +34,10 @@ const TestSession = () => {
       console.log(`Pattern detected: ${pattern} -> ${phrase}`);
       setDetectedPattern(pattern);
       setCurrentPhrase(phrase);
-      if (isSpeechEnabled && 'speechSynthesis' in window) {
-        speechSynthesis.cancel();
-        const utterance = new SpeechSynthesisUtterance(phrase);
-        speechSynthesis.speak(utterance);
+      if (isSpeechEnabled) {
+        speakPhrase(phrase);
       }
-    },
-    blinkThreshold: 0.18  // More sensitive threshold
+    }
   });
 
 
@@ -69,10 +67,7 @@ const TestSession = () => {
   };
 
   const testSpeech = () => {
-    if ('speechSynthesis' in window) {
-      speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance('Testing speech synthesis');
-      speechSynthesis.speak(utterance);
+    if (speakPhrase('Testing speech synthesis')) {
       console.log('🔊 Testing speech');
     }
   };
@@ -84,10 +79,8 @@ const TestSession = () => {
       setCurrentPhrase(phrase);
       console.log(`🎯 Manual: ${pattern} → "${phrase}"`);
       
-      if (isSpeechEnabled && 'speechSynthesis' in window) {
-        speechSynthesis.cancel();
-        const utterance = new SpeechSynthesisUtterance(phrase);
-        speechSynthesis.speak(utterance);
+      if (isSpeechEnabled) {
+        speakPhrase(phrase);
       }
     }
   };
@@ -13,12 +13,15 @@ declare module 'webgazer' {
   interface WebGazer {
     setRegression(regression: string): WebGazer;
     setTracker(tracker: string): WebGazer;
-    setGazeListener(callback: (data: GazeData) => void): WebGazer;
+    setGazeListener(callback: (data: GazeData | null, elapsedTime: number) => void): WebGazer;
     begin(): Promise<void>;
     end(): void;
-    getCurrentPrediction(): GazeData;
+    isReady(): boolean;
+    getCurrentPrediction(): Promise<GazeData | null>;
+    recordScreenPosition(x: number, y: number, eventType?: 'click' | 'move'): WebGazer;
+    showPredictionPoints(show: boolean): WebGazer;
   }
 
   const webgazer: WebGazer;
   export default webgazer;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,38 @@
+import type { EarCalibration } from '@/engine/earCalibration';
+import type { CalibrationQuality } from '@/engine/calibrationQuality';
+import type { GazePointAccuracy } from '@/engine/gazeCalibration';
+import type { DirectionThresholds } from '@/utils/gazeUtils';
+import { mirrorToStore } from '@/utils/localStore';
+
+export const CALIBRATION_KEY = 'blinkSpeechCalibration';
+
+export interface CalibrationRecord {
+  centerX?: number;
+  centerY?: number;
+  threshold?: number;
+  gazeThresholds?: DirectionThresholds;
+  points?: GazePointAccuracy[];
+  blink?: EarCalibration;
+  quality?: CalibrationQuality;
+  timestamp?: number;
+}
+
+export function loadCalibration(): CalibrationRecord | null {
+  const stored = localStorage.getItem(CALIBRATION_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as CalibrationRecord;
+  } catch (error) {
+    console.error('Failed to load calibration data:', error);
+    return null;
+  }
+}
+
+// Merge into the stored record so gaze and blink calibration can be saved separately
+export function saveCalibration(update: Partial<CalibrationRecord>): CalibrationRecord {
+  const record = { ...loadCalibration(), ...update, timestamp: Date.now() };
+  localStorage.setItem(CALIBRATION_KEY, JSON.stringify(record));
+  mirrorToStore(CALIBRATION_KEY, record);
+  console.log('Calibration saved:', record);
+  return record;
+}
@@ -0,0 +1,49 @@
+import { mirrorToStore } from '@/utils/localStore';
+
+export const DEVICE_SESSION_KEY = 'blinkSpeechDevice';
+
+// The backend id (`sid`) this browser's data is stored under, and the signed
+// token that authorizes requests for it. Issued once by POST /api/device.
+export interface DeviceSession {
+  sid: string;
+  token: string;
+}
+
+let registration: Promise<DeviceSession> | null = null;
+// A session stored before it was mirrored gets its copy on first use
+let mirrored = false;
+
+export function loadDeviceSession(): DeviceSession | null {
+  const stored = localStorage.getItem(DEVICE_SESSION_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as DeviceSession;
+  } catch (error) {
+    console.error('Failed to load device session:', error);
+    return null;
+  }
+}
+
+async function registerDevice(): Promise<DeviceSession> {
+  const res = await fetch('/api/device', { method: 'POST' });
+  if (!res.ok) throw new Error(`Error registering device: ${res.statusText}`);
+  const session: DeviceSession = await res.json();
+  localStorage.setItem(DEVICE_SESSION_KEY, JSON.stringify(session));
+  mirrorToStore(DEVICE_SESSION_KEY, session);
+  mirrored = true;
+  return session;
+}
+
+// The stored session, registering this device on first use
+export function getDeviceSession(): Promise<DeviceSession> {
+  const stored = loadDeviceSession();
+  if (stored) {
+    if (!mirrored) mirrorToStore(DEVICE_SESSION_KEY, stored);
+    mirrored = true;
+    return Promise.resolve(stored);
+  }
+  registration ??= registerDevice().finally(() => {
+    registration = null;
+  });
+  return registration;
+}
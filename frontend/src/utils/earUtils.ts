@@ -2,10 +2,16 @@
 const LEFT_EYE_INDICES = [362, 385, 387, 263, 373, 380];
 const RIGHT_EYE_INDICES = [33, 160, 158, 133, 153, 144];
 
-export function calculateEAR(landmarks: { x: number; y: number }[]): number {
+export interface EyeEARs {
+  left: number;
+  right: number;
+}
+
+// Per-eye EAR, or null when the landmarks are unusable for this frame
+export function calculateEyeEARs(landmarks: { x: number; y: number }[]): EyeEARs | null {
   if (!landmarks || landmarks.length < 468) {
     console.warn('⚠️ Insufficient landmarks for EAR calculation:', landmarks?.length || 0);
-    return 0.35; // Default value if landmarks are not available
+    return null;
   }
 
   try {
@@ -14,7 +20,7 @@ export function calculateEAR(landmarks: { x: number; y: number }[]): number {
     for (const idx of requiredIndices) {
       if (!landmarks[idx] || typeof landmarks[idx].x !== 'number' || typeof landmarks[idx].y !== 'number') {
         console.warn('⚠️ Invalid landmark at index:', idx);
-        return 0.35;
+        return null;
       }
     }
     
@@ -27,25 +33,37 @@ export function calculateEAR(landmarks: { x: number; y: number }[]): number {
     // Validate EAR values
     if (isNaN(leftEAR) || isNaN(rightEAR) || !isFinite(leftEAR) || !isFinite(rightEAR)) {
       console.warn('⚠️ Invalid EAR calculation:', { leftEAR, rightEAR });
-      return 0.35; // Return default if calculation failed
+      return null;
     }
     
     if (leftEAR <= 0 || rightEAR <= 0 || leftEAR > 1 || rightEAR > 1) {
       console.warn('⚠️ EAR values out of expected range:', { leftEAR, rightEAR });
-      return 0.35;
+      return null;
     }
     
-    // Return average EAR
-    const avgEAR = (leftEAR + rightEAR) / 2;
-    
     // Clamp EAR to reasonable range (more lenient)
-    const clampedEAR = Math.max(0.05, Math.min(0.8, avgEAR));
-    
-    return clampedEAR;
+    return {
+      left: clampEAR(leftEAR),
+      right: clampEAR(rightEAR)
+    };
   } catch (error) {
     console.error('❌ EAR calculation error:', error);
-    return 0.35;
+    return null;
+  }
+}
+
+export function calculateEAR(landmarks: { x: number; y: number }[]): number {
+  const ears = calculateEyeEARs(landmarks);
+  if (!ears) {
+    return 0.35; // Default value if landmarks are not available
   }
+
+  // Return average EAR
+  return (ears.left + ears.right) / 2;
+}
+
+function clampEAR(ear: number): number {
+  return Math.max(0.05, Math.min(0.8, ear));
 }
 
 function calculateEyeAspectRatio(landmarks: { x: number; y: number }[], eyeIndices: number[]): number {
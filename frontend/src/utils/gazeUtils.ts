@@ -1,16 +1,88 @@
+import WebGazer from 'webgazer';
+
 interface GazeData {
   x: number;
   y: number;
   confidence: number;
 }
 
-let calibrationData: { centerX: number; centerY: number; threshold: number } | null = null;
+export type GazeDirection = 'lookLeft' | 'lookRight' | 'lookUp' | 'lookDown' | 'center';
+
+// WebGazer's screen-coordinate predictions, or iris position from FaceMesh landmarks
+export type GazeSource = 'webgazer' | 'iris';
+
+// Distance from the gaze centre, in pixels, beyond which gaze counts as looking that way
+export interface DirectionThresholds {
+  left: number;
+  right: number;
+  up: number;
+  down: number;
+}
+
+const DEFAULT_THRESHOLD = 100;
+// Predictions older than this are treated as missing (milliseconds)
+const PREDICTION_MAX_AGE_MS = 500;
+
+let calibrationData: { centerX: number; centerY: number; thresholds: DirectionThresholds } | null = null;
+let latestPrediction: (GazeData & { timestamp: number }) | null = null;
+let isTracking = false;
+
+export function uniformThresholds(threshold: number): DirectionThresholds {
+  return { left: threshold, right: threshold, up: threshold, down: threshold };
+}
+
+export function setCalibrationData(
+  centerX: number,
+  centerY: number,
+  threshold: number | DirectionThresholds = DEFAULT_THRESHOLD
+) {
+  const thresholds = typeof threshold === 'number' ? uniformThresholds(threshold) : threshold;
+  calibrationData = { centerX, centerY, thresholds };
+}
+
+// Start WebGazer and keep the most recent prediction for synchronous reads
+export async function startGazeTracking() {
+  if (isTracking) return;
+  isTracking = true;
+  console.log('Initializing WebGazer...');
+  WebGazer.setRegression('ridge')
+    .setTracker('clmtrackr')
+    .setGazeListener(data => {
+      if (data && data.x !== null && data.y !== null) {
+        latestPrediction = {
+          x: data.x,
+          y: data.y,
+          confidence: data.confidence || 0,
+          timestamp: performance.now()
+        };
+      }
+    });
+  await WebGazer.begin();
+  WebGazer.showPredictionPoints(false);
+}
+
+export function stopGazeTracking() {
+  if (!isTracking) return;
+  isTracking = false;
+  latestPrediction = null;
+  WebGazer.end();
+}
 
-export function setCalibrationData(centerX: number, centerY: number, threshold: number = 100) {
-  calibrationData = { centerX, centerY, threshold };
+// Train the gaze model with the user looking at a known screen position
+export function recordGazeTarget(x: number, y: number) {
+  if (!isTracking) return;
+  WebGazer.recordScreenPosition(x, y, 'click');
 }
 
-export function getGazeDirection(x?: number, y?: number): string {
+// Request a fresh prediction rather than waiting for the next listener callback
+export async function predictGaze(): Promise<{ x: number; y: number } | null> {
+  if (!isTracking) return null;
+  const data = await WebGazer.getCurrentPrediction();
+  if (!data || data.x === null || data.y === null) return null;
+  return { x: data.x, y: data.y };
+}
+
+export function getGazeDirection(x?: number, y?: number): GazeDirection {
   // If no coordinates provided, try to get from WebGazer
   if (x === undefined || y === undefined) {
     const gazeData = getWebGazerData();
@@ -25,18 +97,22 @@ export function getGazeDirection(x?: number, y?: number): string {
   // Use calibration data if available, otherwise use screen center
   const centerX = calibrationData?.centerX ?? window.innerWidth / 2;
   const centerY = calibrationData?.centerY ?? window.innerHeight / 2;
-  const threshold = calibrationData?.threshold ?? 100;
+  const thresholds = calibrationData?.thresholds ?? uniformThresholds(DEFAULT_THRESHOLD);
   
   const deltaX = x - centerX;
   const deltaY = y - centerY;
+
+  // Scale each axis by the threshold for the direction it points in
+  const horizontal = Math.abs(deltaX) / (deltaX > 0 ? thresholds.right : thresholds.left);
+  const vertical = Math.abs(deltaY) / (deltaY > 0 ? thresholds.down : thresholds.up);
   
   // Check if gaze is within threshold of center
-  if (Math.abs(deltaX) < threshold && Math.abs(deltaY) < threshold) {
+  if (horizontal < 1 && vertical < 1) {
     return 'center';
   }
   
   // Determine primary direction
-  if (Math.abs(deltaX) > Math.abs(deltaY)) {
+  if (horizontal > vertical) {
     return deltaX > 0 ? 'lookRight' : 'lookLeft';
   } else {
     return deltaY > 0 ? 'lookDown' : 'lookUp';
@@ -44,19 +120,10 @@ export function getGazeDirection(x?: number, y?: number): string {
 }
 
 function getWebGazerData(): GazeData | null {
-  // @ts-ignore - WebGazer types
-  if (typeof window !== 'undefined' && window.webgazer) {
-    // @ts-ignore
-    const data = window.webgazer.getCurrentPrediction();
-    if (data && data.x !== null && data.y !== null) {
-      return {
-        x: data.x,
-        y: data.y,
-        confidence: data.confidence || 0
-      };
-    }
+  if (!latestPrediction || performance.now() - latestPrediction.timestamp > PREDICTION_MAX_AGE_MS) {
+    return null;
   }
-  return null;
+  return latestPrediction;
 }
 
 export function getGazeConfidence(): number {
@@ -0,0 +1,35 @@
+// Minimal promise wrapper over IndexedDB, shared by the stores that hold more
+// than localStorage can (voice clips) or must survive it being cleared.
+export function openStoreDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void) {
+  let database: Promise<IDBDatabase> | null = null;
+
+  function openDatabase(): Promise<IDBDatabase> {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+    return database;
+  }
+
+  async function withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  return { withStore };
+}
+
+export type StoreDatabase = ReturnType<typeof openStoreDatabase>;
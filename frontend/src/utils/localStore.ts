@@ -0,0 +1,70 @@
+import { openStoreDatabase } from '@/utils/indexedDb';
+
+// Durable copies of the user's mapping, settings, calibration and device session.
+// All but the mapping are still read synchronously from localStorage; the copies here
+// put them back if the browser clears it. Writes meant for the backend wait in
+// an outbox until they have been synced.
+const DB_NAME = 'blinkSpeechStore';
+const RECORDS = 'records';
+const OUTBOX = 'outbox';
+
+export interface StoredRecord<T> {
+  key: string;
+  value: T;
+  // Last local change, in ms
+  updatedAt: number;
+  // Backend version the value is based on; 0 if never synced
+  version: number;
+}
+
+// A record waiting to be sent; repeated writes to one key share an entry
+export interface QueuedWrite {
+  key: string;
+  queuedAt: number;
+}
+
+const db = openStoreDatabase(DB_NAME, 1, database => {
+  database.createObjectStore(RECORDS, { keyPath: 'key' });
+  database.createObjectStore(OUTBOX, { keyPath: 'key' });
+});
+
+export async function getRecord<T>(key: string): Promise<StoredRecord<T> | null> {
+  return (await db.withStore<StoredRecord<T> | undefined>(RECORDS, 'readonly', store => store.get(key))) ?? null;
+}
+
+export async function putRecord<T>(record: StoredRecord<T>) {
+  await db.withStore(RECORDS, 'readwrite', store => store.put(record));
+}
+
+export async function queueWrite(key: string) {
+  const write: QueuedWrite = { key, queuedAt: Date.now() };
+  await db.withStore(OUTBOX, 'readwrite', store => store.put(write));
+}
+
+export async function isQueued(key: string): Promise<boolean> {
+  return (await db.withStore(OUTBOX, 'readonly', store => store.count(key))) > 0;
+}
+
+export async function clearQueued(key: string) {
+  await db.withStore(OUTBOX, 'readwrite', store => store.delete(key));
+}
+
+// Keep an IndexedDB copy of a value that lives in localStorage under the same key
+export function mirrorToStore<T>(key: string, value: T) {
+  putRecord({ key, value, updatedAt: Date.now(), version: 0 })
+    .catch(error => console.error(`Failed to store ${key}:`, error));
+}
+
+// Put back localStorage values that were cleared, from their IndexedDB copies.
+// localStorage is written first, so where both exist it is never older.
+export async function restoreLocalStorage(keys: string[]) {
+  for (const key of keys) {
+    if (localStorage.getItem(key) !== null) continue;
+    try {
+      const record = await getRecord(key);
+      if (record) localStorage.setItem(key, JSON.stringify(record.value));
+    } catch (error) {
+      console.error(`Failed to restore ${key}:`, error);
+    }
+  }
+}
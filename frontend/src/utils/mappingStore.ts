@@ -0,0 +1,110 @@
+import { fetchMapping, saveMapping, MappingConflictError, type VersionedMapping } from '@/api/apiClient';
+import { chooseSyncAction, type SyncStatus } from '@/engine/mappingSync';
+import type { GestureMapping } from '@/engine/phraseBoard';
+import { getDeviceSession } from '@/utils/deviceSession';
+import { loadSettings } from '@/utils/settingsStorage';
+import { clearQueued, getRecord, isQueued, putRecord, queueWrite, type StoredRecord } from '@/utils/localStore';
+
+// The user's gesture mapping is kept on the device first, so edits survive a
+// reload and work offline, and is synced with /api/patterns when online.
+const MAPPING_KEY = 'blinkSpeechMapping';
+
+export interface SyncResult {
+  status: SyncStatus;
+  // Set when the backend had a newer mapping, which replaced the local one
+  mapping?: GestureMapping;
+}
+
+export async function loadStoredMapping(): Promise<GestureMapping | null> {
+  try {
+    return (await getRecord<GestureMapping>(MAPPING_KEY))?.value ?? null;
+  } catch (error) {
+    console.error('Failed to load stored mapping:', error);
+    return null;
+  }
+}
+
+// Save locally and queue the mapping for the next sync
+export async function storeMapping(mapping: GestureMapping) {
+  const current = await getRecord<GestureMapping>(MAPPING_KEY);
+  await putRecord({ key: MAPPING_KEY, value: mapping, updatedAt: Date.now(), version: current?.version ?? 0 });
+  await queueWrite(MAPPING_KEY);
+}
+
+async function push(sid: string, record: StoredRecord<GestureMapping>, baseVersion: number): Promise<SyncResult> {
+  const saved = await saveMapping(sid, record.value, {
+    baseVersion,
+    updatedAt: new Date(record.updatedAt).toISOString(),
+    author: loadSettings().editorName || undefined
+  });
+  // The mapping may have been edited again while it was being sent
+  const latest = await getRecord<GestureMapping>(MAPPING_KEY);
+  if (latest) await putRecord({ ...latest, version: saved.version });
+  if (latest?.updatedAt !== record.updatedAt) return { status: 'pending' };
+  await clearQueued(MAPPING_KEY);
+  return { status: 'synced' };
+}
+
+// Take the backend's mapping, dropping any unsent local edit
+async function replaceLocal(remote: VersionedMapping): Promise<SyncResult> {
+  await putRecord({
+    key: MAPPING_KEY,
+    value: remote.mapping,
+    updatedAt: remote.updatedAt ? Date.parse(remote.updatedAt) : Date.now(),
+    version: remote.version
+  });
+  await clearQueued(MAPPING_KEY);
+  return { status: 'synced', mapping: remote.mapping };
+}
+
+async function runSync(): Promise<SyncResult> {
+  if (!navigator.onLine) return { status: 'offline' };
+  try {
+    const { sid } = await getDeviceSession();
+    const local = await getRecord<GestureMapping>(MAPPING_KEY);
+    const pending = local !== null && await isQueued(MAPPING_KEY);
+
+    // Most saves are based on the latest version, so try without fetching first
+    if (local && pending) {
+      try {
+        return await push(sid, local, local.version);
+      } catch (error) {
+        if (!(error instanceof MappingConflictError)) throw error;
+      }
+    }
+
+    const remote = await fetchMapping(sid);
+    const action = chooseSyncAction(local && { version: local.version, updatedAt: local.updatedAt, pending }, remote);
+    if (action === 'push' && local) return await push(sid, local, remote.version);
+    if (action === 'pull') {
+      // Leave an edit made while fetching for the next sync
+      const latest = await getRecord<GestureMapping>(MAPPING_KEY);
+      if (latest?.updatedAt !== local?.updatedAt) return { status: 'pending' };
+      console.log('🔄 Mapping updated from server, version', remote.version);
+      return await replaceLocal(remote);
+    }
+    return { status: 'synced' };
+  } catch (error) {
+    console.error('Mapping sync failed:', error);
+    return { status: 'error' };
+  }
+}
+
+let lastSync: Promise<SyncResult> = Promise.resolve({ status: 'synced' });
+
+// Syncs run one after another, so each sees what the previous one stored
+export function syncMapping(): Promise<SyncResult> {
+  lastSync = lastSync.then(runSync);
+  return lastSync;
+}
+
+// Use a mapping the backend has just saved, such as a restored revision
+export function adoptMapping(remote: VersionedMapping): Promise<SyncResult> {
+  lastSync = lastSync
+    .then(() => replaceLocal(remote))
+    .catch(error => {
+      console.error('Failed to store mapping:', error);
+      return { status: 'error' as const };
+    });
+  return lastSync;
+}
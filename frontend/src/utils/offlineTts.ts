@@ -0,0 +1,108 @@
+import { primaryLanguage } from '@/engine/phrasePack';
+
+// eSpeak NG compiled to WASM, with its voice data built in, so speech works
+// with no browser voices and no network. It is GPL-3.0-or-later licensed, so
+// it is not part of the app: a deployment that accepts its license serves the
+// `espeak-ng` npm package under public/tts (see docs/configuration.md). Without
+// it the offline voice is simply unavailable.
+export const OFFLINE_TTS_MODULE_URL = '/tts/dist/espeak-ng.js';
+
+interface ESpeakNgFS {
+  writeFile(path: string, data: string | Uint8Array): void;
+  readFile(path: string): Uint8Array;
+}
+
+// Options of the Emscripten module; `arguments` are the espeak-ng command line
+interface ESpeakNgOptions {
+  arguments: string[];
+  preRun?: Array<(module: { FS: ESpeakNgFS }) => void>;
+  print?: (text: string) => void;
+  printErr?: (text: string) => void;
+  instantiateWasm?: (
+    imports: WebAssembly.Imports,
+    receiveInstance: (instance: WebAssembly.Instance) => void
+  ) => object;
+}
+
+// Runs the espeak-ng command once and resolves when it has finished
+type ESpeakNg = (options: ESpeakNgOptions) => Promise<{ FS: ESpeakNgFS }>;
+
+interface LoadedEngine {
+  run: ESpeakNg;
+  // Each phrase runs in a fresh instance; the module is compiled only once
+  wasm: WebAssembly.Module;
+}
+
+// espeak-ng's defaults, which Web Speech's rate and pitch of 1 correspond to
+const DEFAULT_WORDS_PER_MINUTE = 175;
+const DEFAULT_PITCH = 50;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+let loaded: Promise<LoadedEngine> | null = null;
+
+function loadEngine(): Promise<LoadedEngine> {
+  loaded ??= (async () => {
+    // A full URL, so the dev server serves the file from public/ as it is
+    const moduleUrl = new URL(OFFLINE_TTS_MODULE_URL, window.location.href).href;
+    const module = await import(/* @vite-ignore */ moduleUrl);
+    const res = await fetch(new URL('espeak-ng.wasm', moduleUrl));
+    if (!res.ok) throw new Error(`Offline TTS engine not found: ${res.statusText}`);
+    return { run: module.default as ESpeakNg, wasm: await WebAssembly.compile(await res.arrayBuffer()) };
+  })().catch(error => {
+    loaded = null;
+    throw error;
+  });
+  return loaded;
+}
+
+export async function isOfflineTtsSupported(): Promise<boolean> {
+  if (typeof WebAssembly === 'undefined') return false;
+  try {
+    await loadEngine();
+    return true;
+  } catch (error) {
+    console.warn('Offline TTS engine not available:', error);
+    return false;
+  }
+}
+
+// WAV audio of `text`, or null if espeak-ng has no voice for `voice`
+async function runEspeak(text: string, voice: string, rate: number, pitch: number): Promise<ArrayBuffer | null> {
+  const { run, wasm } = await loadEngine();
+  const espeak = await run({
+    // Read from a file so text starting with '-' is not taken as an option
+    preRun: [({ FS }) => FS.writeFile('/phrase.txt', text)],
+    arguments: [
+      '-w', '/phrase.wav',
+      '-v', voice,
+      '-s', String(clamp(Math.round(DEFAULT_WORDS_PER_MINUTE * rate), 80, 450)),
+      '-p', String(clamp(Math.round(DEFAULT_PITCH * pitch), 0, 99)),
+      '-f', '/phrase.txt'
+    ],
+    print: () => {},
+    printErr: () => {},
+    instantiateWasm(imports, receiveInstance) {
+      WebAssembly.instantiate(wasm, imports).then(receiveInstance);
+      return {};
+    }
+  });
+  try {
+    return espeak.FS.readFile('/phrase.wav').slice().buffer;
+  } catch {
+    return null;
+  }
+}
+
+// Speak `text` in the language's regional voice if espeak-ng has one, else the base language's
+export async function synthesizeOffline(
+  text: string,
+  options: { language: string; rate: number; pitch: number }
+): Promise<ArrayBuffer> {
+  const tag = options.language.replace('_', '-').toLowerCase();
+  const wav =
+    (await runEspeak(text, tag, options.rate, options.pitch)) ??
+    (await runEspeak(text, primaryLanguage(tag), options.rate, options.pitch));
+  if (!wav) throw new Error(`No offline voice for ${options.language}`);
+  return wav;
+}
@@ -0,0 +1,122 @@
+import { deletePhrasePack, fetchPhrasePacks, savePhrasePack } from '@/api/apiClient';
+import type { PhrasePack } from '@/engine/phrasePack';
+import { BUILT_IN_PHRASE_PACKS } from '@/data/phrasePacks';
+import { getDeviceSession } from '@/utils/deviceSession';
+import { clearQueued, getRecord, isQueued, putRecord, queueWrite } from '@/utils/localStore';
+
+// Imported packs are kept on the device, so they work offline, and synced with
+// /api/packs when online. Like the mapping, a local change is sent to the
+// backend at the next sync and otherwise the backend's packs are taken.
+const PACKS_KEY = 'blinkSpeechPhrasePacks';
+
+// Packs the user imported; built-in packs are never stored
+export function loadInstalledPacks(): PhrasePack[] {
+  const stored = localStorage.getItem(PACKS_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored) as PhrasePack[];
+  } catch (error) {
+    console.error('Failed to load phrase packs:', error);
+    return [];
+  }
+}
+
+function saveInstalledPacks(packs: PhrasePack[]) {
+  localStorage.setItem(PACKS_KEY, JSON.stringify(packs));
+}
+
+// The latest queueing, which a sync waits for so it sees the change
+let queued: Promise<void> = Promise.resolve();
+
+// Save locally and queue the packs for the next sync
+function changeInstalledPacks(packs: PhrasePack[]): PhrasePack[] {
+  saveInstalledPacks(packs);
+  queued = queueWrite(PACKS_KEY).catch(error => console.error('Failed to queue phrase packs:', error));
+  return packs;
+}
+
+// Install or replace a pack by id; returns the installed packs
+export function installPack(pack: PhrasePack): PhrasePack[] {
+  return changeInstalledPacks([...loadInstalledPacks().filter(installed => installed.id !== pack.id), pack]);
+}
+
+export function removePack(id: string): PhrasePack[] {
+  return changeInstalledPacks(loadInstalledPacks().filter(installed => installed.id !== id));
+}
+
+export type PackSyncStatus = 'synced' | 'pending' | 'offline' | 'error';
+
+export interface PackSyncResult {
+  status: PackSyncStatus;
+  // Set when the backend's packs replaced the local ones
+  packs?: PhrasePack[];
+}
+
+const samePack = (a: PhrasePack, b: PhrasePack) => JSON.stringify(a) === JSON.stringify(b);
+
+// Record that the packs have been synced, as they are now
+const markSynced = (packs: PhrasePack[]) =>
+  putRecord({ key: PACKS_KEY, value: packs, updatedAt: Date.now(), version: 1 });
+
+// Make the backend's packs match the local ones, sending only what changed
+async function push(sid: string, local: PhrasePack[], remote: PhrasePack[]): Promise<PackSyncResult> {
+  for (const pack of local) {
+    const current = remote.find(existing => existing.id === pack.id);
+    if (!current || !samePack(current, pack)) await savePhrasePack(sid, pack);
+  }
+  for (const pack of remote) {
+    if (!local.some(installed => installed.id === pack.id)) await deletePhrasePack(sid, pack.id);
+  }
+  // Packs may have been changed again while they were being sent
+  if (localStorage.getItem(PACKS_KEY) !== JSON.stringify(local)) return { status: 'pending' };
+  await clearQueued(PACKS_KEY);
+  await markSynced(local);
+  return { status: 'synced' };
+}
+
+async function runSync(): Promise<PackSyncResult> {
+  if (!navigator.onLine) return { status: 'offline' };
+  try {
+    await queued;
+    const { sid } = await getDeviceSession();
+    const local = loadInstalledPacks();
+    const pending = await isQueued(PACKS_KEY);
+    // Packs installed before this device first synced are added to the backend's, not dropped
+    const neverSynced = (await getRecord(PACKS_KEY)) === null;
+    const remote = await fetchPhrasePacks(sid);
+    if (neverSynced) {
+      const merged = [...remote.filter(pack => !local.some(installed => installed.id === pack.id)), ...local];
+      saveInstalledPacks(merged);
+      const result = await push(sid, merged, remote);
+      return { ...result, packs: merged };
+    }
+    if (pending) return await push(sid, local, remote);
+
+    // Leave a change made while fetching for the next sync
+    if (await isQueued(PACKS_KEY)) return { status: 'pending' };
+    saveInstalledPacks(remote);
+    await markSynced(remote);
+    return { status: 'synced', packs: remote };
+  } catch (error) {
+    console.error('Phrase pack sync failed:', error);
+    return { status: 'error' };
+  }
+}
+
+let lastSync: Promise<PackSyncResult> = Promise.resolve({ status: 'synced' });
+
+// Syncs run one after another, so each sees what the previous one stored
+export function syncPhrasePacks(): Promise<PackSyncResult> {
+  lastSync = lastSync.then(runSync);
+  return lastSync;
+}
+
+// Built-in packs followed by installed ones; an installed pack replaces a built-in with the same id
+export function listPacks(installed: PhrasePack[] = loadInstalledPacks()): PhrasePack[] {
+  const installedIds = new Set(installed.map(pack => pack.id));
+  return [...BUILT_IN_PHRASE_PACKS.filter(pack => !installedIds.has(pack.id)), ...installed];
+}
+
+export function isBuiltInPack(id: string): boolean {
+  return BUILT_IN_PHRASE_PACKS.some(pack => pack.id === id);
+}
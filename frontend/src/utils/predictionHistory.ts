@@ -0,0 +1,54 @@
+const HISTORY_KEY = 'blinkSpeechPredictionHistory';
+// Keep storage bounded; the least used sentences are dropped first
+const MAX_SENTENCES = 200;
+
+// Counts learned from what the user has typed and spoken, kept only in this browser
+export interface PredictionHistory {
+  unigrams: Record<string, number>;
+  // Keyed by "previous next"
+  bigrams: Record<string, number>;
+  sentences: Record<string, number>;
+}
+
+const emptyHistory = (): PredictionHistory => ({ unigrams: {}, bigrams: {}, sentences: {} });
+
+export function tokenizeWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+}
+
+export function loadPredictionHistory(): PredictionHistory {
+  const stored = localStorage.getItem(HISTORY_KEY);
+  if (!stored) return emptyHistory();
+  try {
+    return { ...emptyHistory(), ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Failed to load prediction history:', error);
+    return emptyHistory();
+  }
+}
+
+// Learn from a spoken message and persist the updated counts
+export function recordSpokenText(text: string): PredictionHistory {
+  const history = loadPredictionHistory();
+  const words = tokenizeWords(text);
+  if (words.length === 0) return history;
+
+  words.forEach((word, i) => {
+    history.unigrams[word] = (history.unigrams[word] ?? 0) + 1;
+    if (i > 0) {
+      const pair = `${words[i - 1]} ${word}`;
+      history.bigrams[pair] = (history.bigrams[pair] ?? 0) + 1;
+    }
+  });
+
+  const sentence = words.join(' ');
+  history.sentences[sentence] = (history.sentences[sentence] ?? 0) + 1;
+  const sentences = Object.entries(history.sentences);
+  if (sentences.length > MAX_SENTENCES) {
+    sentences.sort((a, b) => b[1] - a[1]);
+    history.sentences = Object.fromEntries(sentences.slice(0, MAX_SENTENCES));
+  }
+
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  return history;
+}
@@ -0,0 +1,97 @@
+import type { GazeSource } from '@/utils/gazeUtils';
+import { DEFAULT_DWELL_COOLDOWN_MS, DEFAULT_DWELL_MS } from '@/engine/gazeDwell';
+import { DEFAULT_BACK_GESTURE } from '@/engine/phraseBoard';
+import { DEFAULT_PHRASE_PACK_ID } from '@/data/phrasePacks';
+import { DEFAULT_DUPLICATE_WINDOW_MS, type SpeechPolicy } from '@/engine/speechQueue';
+import { DEFAULT_TTS_SERVER_URL, type TtsEngineId } from '@/utils/ttsEngines';
+import {
+  DEFAULT_EMERGENCY_COUNTDOWN_S,
+  DEFAULT_EMERGENCY_GESTURE,
+  DEFAULT_EMERGENCY_HOLD_MS,
+  DEFAULT_EMERGENCY_MESSAGE
+} from '@/engine/emergencyAlert';
+import { mirrorToStore } from '@/utils/localStore';
+
+export const SETTINGS_KEY = 'blinkSpeechSettings';
+
+export interface AppSettings {
+  gazeSource: GazeSource;
+  dwellGestures: boolean;
+  dwellMs: number;
+  dwellCooldownMs: number;
+  // On-screen keyboard: automatic row-column scanning or moving by gaze
+  keyboardInput: 'scan' | 'gaze';
+  scanIntervalMs: number;
+  // Gesture that returns to the parent phrase board
+  backGesture: string;
+  // Speech output; a null voice uses the browser default
+  voiceURI: string | null;
+  speechRate: number;
+  speechPitch: number;
+  speechVolume: number;
+  // Language of the active phrase pack; voices for it are preferred
+  speechLanguage: string;
+  phrasePackId: string;
+  speechPolicy: SpeechPolicy;
+  // The same phrase again within this window is dropped (0 keeps every repeat)
+  duplicateWindowMs: number;
+  // Spoken at once, cutting off and clearing anything else
+  urgentPhrases: string[];
+  // Gesture that repeats the last spoken phrase, or null for none
+  repeatGesture: string | null;
+  // Speech engine; "auto" uses browser voices when there are any
+  ttsEngine: 'auto' | TtsEngineId;
+  ttsServerUrl: string;
+  // Held this long, the gesture raises an emergency alert; null turns alerts off
+  emergencyGesture: string | null;
+  emergencyHoldMs: number;
+  // Seconds to cancel a false alarm before the alert is sent
+  emergencyCountdownS: number;
+  emergencyMessage: string;
+  // Recorded as the author of mapping changes made here
+  editorName: string;
+}
+
+export const defaultSettings: AppSettings = {
+  gazeSource: 'webgazer',
+  dwellGestures: false,
+  dwellMs: DEFAULT_DWELL_MS,
+  dwellCooldownMs: DEFAULT_DWELL_COOLDOWN_MS,
+  keyboardInput: 'scan',
+  scanIntervalMs: 1200,
+  backGesture: DEFAULT_BACK_GESTURE,
+  voiceURI: null,
+  speechRate: 1,
+  speechPitch: 1,
+  speechVolume: 1,
+  speechLanguage: 'en-US',
+  phrasePackId: DEFAULT_PHRASE_PACK_ID,
+  speechPolicy: 'queue',
+  duplicateWindowMs: DEFAULT_DUPLICATE_WINDOW_MS,
+  urgentPhrases: ['Help', 'I need help', 'Necesito ayuda', 'मुझे मदद चाहिए', 'J’ai besoin d’aide'],
+  repeatGesture: null,
+  ttsEngine: 'auto',
+  ttsServerUrl: DEFAULT_TTS_SERVER_URL,
+  emergencyGesture: DEFAULT_EMERGENCY_GESTURE,
+  emergencyHoldMs: DEFAULT_EMERGENCY_HOLD_MS,
+  emergencyCountdownS: DEFAULT_EMERGENCY_COUNTDOWN_S,
+  emergencyMessage: DEFAULT_EMERGENCY_MESSAGE,
+  editorName: ''
+};
+
+export function loadSettings(): AppSettings {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (!stored) return defaultSettings;
+  try {
+    // Fill in settings added since the user last saved
+    return { ...defaultSettings, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+    return defaultSettings;
+  }
+}
+
+export function saveSettings(settings: AppSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  mirrorToStore(SETTINGS_KEY, settings);
+}
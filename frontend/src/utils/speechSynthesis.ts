@@ -1,9 +1,222 @@
-export function speakPhrase(text: string) {
-  if ('speechSynthesis' in window) {
-    const utterance = new SpeechSynthesisUtterance(text);
-    speechSynthesis.cancel();
-    speechSynthesis.speak(utterance);
-  } else {
-    console.warn('Speech Synthesis API not supported in this browser');
+import { loadSettings, type AppSettings } from '@/utils/settingsStorage';
+import {
+  createSpeechQueue,
+  type SpeechPolicy,
+  type SpeechPriority,
+  type SpeechRequest
+} from '@/engine/speechQueue';
+import { getClip } from '@/utils/voiceBank';
+import {
+  createServerEngine,
+  offlineEngine,
+  onVoicesChanged,
+  playAudioBlob,
+  stopAudio,
+  webSpeechEngine,
+  type TtsEngine,
+  type TtsEngineId
+} from '@/utils/ttsEngines';
+
+// The single path for speech output. Every caller speaks with the voice,
+// rate, pitch and volume chosen in settings, through one shared queue.
+export type SpeechSettings = Pick<
+  AppSettings,
+  | 'voiceURI'
+  | 'speechRate'
+  | 'speechPitch'
+  | 'speechVolume'
+  | 'speechLanguage'
+  | 'speechPolicy'
+  | 'duplicateWindowMs'
+  | 'urgentPhrases'
+  | 'ttsEngine'
+  | 'ttsServerUrl'
+>;
+
+export interface SpeakOptions {
+  // Defaults to the policy chosen in settings
+  policy?: SpeechPolicy;
+  // Defaults to urgent for the phrases listed in settings
+  priority?: SpeechPriority;
+  // Unsaved settings to speak with, e.g. a voice preview
+  settings?: Partial<SpeechSettings>;
+}
+
+// Tried in this order when the engine is "auto" or the chosen one is unavailable
+const ENGINE_FALLBACK_ORDER: TtsEngineId[] = ['webSpeech', 'offline', 'server'];
+
+// Loaded from storage on first use, then kept in sync by configureSpeech
+let speechSettings: SpeechSettings | null = null;
+
+function currentSettings(): SpeechSettings {
+  speechSettings ??= loadSettings();
+  return speechSettings;
+}
+
+export function configureSpeech(settings: SpeechSettings) {
+  const {
+    voiceURI,
+    speechRate,
+    speechPitch,
+    speechVolume,
+    speechLanguage,
+    speechPolicy,
+    duplicateWindowMs,
+    urgentPhrases,
+    ttsEngine,
+    ttsServerUrl
+  } = settings;
+  speechSettings = {
+    voiceURI,
+    speechRate,
+    speechPitch,
+    speechVolume,
+    speechLanguage,
+    speechPolicy,
+    duplicateWindowMs,
+    urgentPhrases,
+    ttsEngine,
+    ttsServerUrl
+  };
+}
+
+function engineById(id: TtsEngineId, settings: SpeechSettings): TtsEngine {
+  switch (id) {
+    case 'webSpeech':
+      return webSpeechEngine;
+    case 'offline':
+      return offlineEngine;
+    case 'server':
+      return createServerEngine(settings.ttsServerUrl);
+  }
+}
+
+// The engine in use, re-checked when the engine settings change or voices load
+let resolved: { key: string; engine: Promise<TtsEngine | null> } | null = null;
+onVoicesChanged(() => {
+  resolved = null;
+});
+
+// An engine whose check fails, e.g. a WASM module that will not load, is unavailable
+async function isEngineAvailable(engine: TtsEngine): Promise<boolean> {
+  try {
+    return await engine.isAvailable();
+  } catch (error) {
+    console.warn(`TTS engine "${engine.id}" failed its availability check:`, error);
+    return false;
+  }
+}
+
+async function firstAvailableEngine(settings: SpeechSettings): Promise<TtsEngine | null> {
+  const preferred = settings.ttsEngine === 'auto' ? [] : [settings.ttsEngine];
+  const candidates = [...preferred, ...ENGINE_FALLBACK_ORDER.filter(id => id !== settings.ttsEngine)];
+  for (const id of candidates) {
+    const engine = engineById(id, settings);
+    if (await isEngineAvailable(engine)) {
+      if (preferred.length > 0 && id !== preferred[0]) {
+        console.warn(`TTS engine "${preferred[0]}" unavailable, falling back to "${id}"`);
+      }
+      return engine;
+    }
+  }
+  console.warn('No TTS engine available');
+  return null;
+}
+
+function resolveEngine(settings: SpeechSettings = currentSettings()): Promise<TtsEngine | null> {
+  const key = `${settings.ttsEngine}|${settings.ttsServerUrl}`;
+  if (resolved?.key !== key) {
+    resolved = { key, engine: firstAvailableEngine(settings) };
   }
+  return resolved.engine;
+}
+
+// Which engine phrases will be spoken with, or null if none works here
+export async function getActiveEngineId(): Promise<TtsEngineId | null> {
+  return (await resolveEngine())?.id ?? null;
+}
+
+let activeEngine: TtsEngine | null = null;
+// Bumped on stop so a phrase still waiting for its engine is not started
+let playGeneration = 0;
+
+function play(request: SpeechRequest<SpeechSettings>, onEnd: () => void) {
+  const settings = request.payload ?? currentSettings();
+  const generation = playGeneration;
+  // Without the voice bank (e.g. IndexedDB blocked) phrases are still synthesized
+  const clipLoaded = getClip(request.text).catch(error => {
+    console.error('Failed to load voice clip:', error);
+    return null;
+  });
+  const engineResolved = resolveEngine(settings).catch(error => {
+    console.error('Failed to pick a TTS engine, using browser voices:', error);
+    return webSpeechEngine;
+  });
+  Promise.all([clipLoaded, engineResolved]).then(([clip, engine]) => {
+    if (generation !== playGeneration) return onEnd();
+    // A phrase recorded in the user's own voice is played instead of synthesized
+    if (clip) {
+      activeEngine = null;
+      return playAudioBlob(clip.audio, settings.speechVolume, onEnd);
+    }
+    if (!engine) return onEnd();
+    activeEngine = engine;
+    engine.speak({
+      text: request.text,
+      language: settings.speechLanguage,
+      voiceURI: settings.voiceURI,
+      rate: settings.speechRate,
+      pitch: settings.speechPitch,
+      volume: settings.speechVolume
+    }, onEnd);
+  }).catch(error => {
+    // The queue waits for onEnd, so it must be called whatever went wrong
+    console.error('❌ Speech error:', error);
+    onEnd();
+  });
+}
+
+const queue = createSpeechQueue<SpeechSettings>({
+  play,
+  stop: () => {
+    playGeneration++;
+    activeEngine?.stop();
+    stopAudio();
+  }
+});
+
+function isUrgent(text: string, settings: SpeechSettings): boolean {
+  const normalized = text.trim().toLowerCase();
+  return settings.urgentPhrases.some(phrase => phrase.trim().toLowerCase() === normalized);
+}
+
+// Queue `text` for speech. Returns false if it was dropped as a repeat.
+export function speakPhrase(text: string, options: SpeakOptions = {}): boolean {
+  const settings = { ...currentSettings(), ...options.settings };
+  const outcome = queue.enqueue(
+    {
+      text,
+      policy: options.policy ?? settings.speechPolicy,
+      priority: options.priority ?? (isUrgent(text, settings) ? 'urgent' : 'normal'),
+      payload: settings
+    },
+    performance.now(),
+    settings.duplicateWindowMs
+  );
+  if (outcome === 'dropped') console.log('🔁 Dropped repeated phrase:', text);
+  return outcome !== 'dropped';
+}
+
+// Say the last spoken phrase again, cutting off anything playing
+export function repeatLastPhrase(): boolean {
+  return queue.repeatLast(performance.now());
+}
+
+export function getLastPhrase(): string | null {
+  return queue.getState().lastSpoken;
+}
+
+// Stop speaking and drop everything still queued
+export function cancelSpeech() {
+  queue.clear();
 }
@@ -0,0 +1,234 @@
+import { primaryLanguage } from '@/engine/phrasePack';
+import { isOfflineTtsSupported, synthesizeOffline } from '@/utils/offlineTts';
+
+// Speech output engines. The speech service picks one and drives it through
+// this interface, so phrases sound the same whichever engine is available.
+export type TtsEngineId = 'webSpeech' | 'offline' | 'server';
+
+export interface TtsRequest {
+  text: string;
+  language: string;
+  // Web Speech voice; other engines use their own voice for the language
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export interface TtsEngine {
+  id: TtsEngineId;
+  isAvailable(): Promise<boolean>;
+  // Must call `onEnd` exactly once, when the phrase finishes or fails
+  speak(request: TtsRequest, onEnd: () => void): void;
+  stop(): void;
+}
+
+// Coqui TTS and OpenTTS servers both answer GET <url>?text=... with audio
+export const DEFAULT_TTS_SERVER_URL = 'http://localhost:5002/api/tts';
+
+const AVAILABILITY_TIMEOUT_MS = 1500;
+
+// --- Web Speech API ---
+
+export function isWebSpeechSupported(): boolean {
+  return 'speechSynthesis' in window;
+}
+
+// Voices load asynchronously in most browsers, so this may be empty at first
+export function getVoices(): SpeechSynthesisVoice[] {
+  return isWebSpeechSupported() ? speechSynthesis.getVoices() : [];
+}
+
+export function onVoicesChanged(listener: () => void): () => void {
+  if (!isWebSpeechSupported()) return () => {};
+  speechSynthesis.addEventListener('voiceschanged', listener);
+  return () => speechSynthesis.removeEventListener('voiceschanged', listener);
+}
+
+// Resolves once voices have loaded, or with whatever exists after the timeout
+function waitForVoices(): Promise<SpeechSynthesisVoice[]> {
+  const voices = getVoices();
+  if (voices.length > 0 || !isWebSpeechSupported()) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      resolve(getVoices());
+    }, AVAILABILITY_TIMEOUT_MS);
+    const unsubscribe = onVoicesChanged(() => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(getVoices());
+    });
+  });
+}
+
+// The chosen voice if it speaks `language`, otherwise the best voice that does:
+// an exact tag match, then any regional variant. Falls back to the chosen voice.
+export function voiceForLanguage(
+  voices: SpeechSynthesisVoice[],
+  language: string,
+  voiceURI: string | null = null
+): SpeechSynthesisVoice | undefined {
+  const chosen = voices.find(voice => voice.voiceURI === voiceURI);
+  const primary = primaryLanguage(language);
+  if (chosen && primaryLanguage(chosen.lang) === primary) return chosen;
+
+  const tag = language.replace('_', '-').toLowerCase();
+  return (
+    voices.find(voice => voice.lang.replace('_', '-').toLowerCase() === tag) ??
+    voices.find(voice => primaryLanguage(voice.lang) === primary) ??
+    chosen
+  );
+}
+
+// Some browsers never fire `end` for an utterance that was garbage collected
+// mid-speech, which would stall the queue, so hold on to the playing one
+let activeUtterance: SpeechSynthesisUtterance | null = null;
+
+export const webSpeechEngine: TtsEngine = {
+  id: 'webSpeech',
+
+  // Some Linux/Chromium setups expose the API but no voices, which speaks nothing
+  async isAvailable() {
+    return (await waitForVoices()).length > 0;
+  },
+
+  speak(request, onEnd) {
+    try {
+      const voice = voiceForLanguage(getVoices(), request.language, request.voiceURI);
+      const utterance = new SpeechSynthesisUtterance(request.text);
+      if (voice) utterance.voice = voice;
+      utterance.lang = request.language;
+      utterance.rate = request.rate;
+      utterance.pitch = request.pitch;
+      utterance.volume = request.volume;
+      utterance.onend = onEnd;
+      utterance.onerror = (e) => {
+        // Cancelling for an interruption reports an error too; that is expected
+        if (e.error !== 'interrupted' && e.error !== 'canceled') console.error('❌ Speech error:', e);
+        onEnd();
+      };
+      activeUtterance = utterance;
+      speechSynthesis.speak(activeUtterance);
+    } catch (error) {
+      console.error('❌ Speech synthesis error:', error);
+      onEnd();
+    }
+  },
+
+  stop() {
+    if (isWebSpeechSupported()) speechSynthesis.cancel();
+    activeUtterance = null;
+  }
+};
+
+// --- Audio playback shared by the offline and server engines and voice clips ---
+
+let audioContext: AudioContext | null = null;
+let activeSource: AudioBufferSourceNode | null = null;
+// Bumped on stop so audio still being synthesized or fetched is discarded
+let audioGeneration = 0;
+
+function getAudioContext(): AudioContext {
+  audioContext ??= new AudioContext();
+  return audioContext;
+}
+
+async function playAudio(
+  load: (context: AudioContext) => Promise<AudioBuffer>,
+  volume: number,
+  onEnd: () => void
+) {
+  const generation = audioGeneration;
+  try {
+    const context = getAudioContext();
+    if (context.state === 'suspended') await context.resume();
+    const buffer = await load(context);
+    if (generation !== audioGeneration) return onEnd();
+
+    const source = context.createBufferSource();
+    const gain = context.createGain();
+    gain.gain.value = volume;
+    source.buffer = buffer;
+    source.connect(gain).connect(context.destination);
+    source.onended = () => {
+      if (activeSource === source) activeSource = null;
+      onEnd();
+    };
+    activeSource = source;
+    source.start();
+  } catch (error) {
+    console.error('❌ Audio speech error:', error);
+    onEnd();
+  }
+}
+
+export function stopAudio() {
+  audioGeneration++;
+  activeSource?.stop();
+  activeSource = null;
+}
+
+// Play recorded audio, such as a voice bank clip, through the same output
+export function playAudioBlob(audio: Blob, volume: number, onEnd: () => void) {
+  playAudio(async (context) => context.decodeAudioData(await audio.arrayBuffer()), volume, onEnd);
+}
+
+// Decode a recording or uploaded file to mono-ready channel data
+export async function decodeAudio(audio: Blob): Promise<{ channels: Float32Array[]; sampleRate: number }> {
+  const buffer = await getAudioContext().decodeAudioData(await audio.arrayBuffer());
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  return { channels, sampleRate: buffer.sampleRate };
+}
+
+// --- Offline WASM engine ---
+
+// eSpeak NG, when the deployment serves it; see offlineTts
+export const offlineEngine: TtsEngine = {
+  id: 'offline',
+
+  isAvailable: isOfflineTtsSupported,
+
+  speak(request, onEnd) {
+    playAudio(async (context) => {
+      const wav = await synthesizeOffline(request.text, {
+        language: request.language,
+        rate: request.rate,
+        pitch: request.pitch
+      });
+      return context.decodeAudioData(wav);
+    }, request.volume, onEnd);
+  },
+
+  stop: stopAudio
+};
+
+// --- Local HTTP TTS server ---
+
+export function createServerEngine(url: string): TtsEngine {
+  return {
+    id: 'server',
+
+    // Any response means something is listening; failures surface when speaking
+    async isAvailable() {
+      if (!url) return false;
+      try {
+        await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(AVAILABILITY_TIMEOUT_MS) });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    speak(request, onEnd) {
+      playAudio(async (context) => {
+        const query = new URLSearchParams({ text: request.text, lang: request.language });
+        const res = await fetch(`${url}?${query}`);
+        if (!res.ok) throw new Error(`TTS server error: ${res.statusText}`);
+        return context.decodeAudioData(await res.arrayBuffer());
+      }, request.volume, onEnd);
+    },
+
+    stop: stopAudio
+  };
+}
@@ -0,0 +1,87 @@
+import { openStoreDatabase } from '@/utils/indexedDb';
+
+// Recorded clips of phrases in the user's own voice, kept in IndexedDB
+// because audio is too large for localStorage. Clips are keyed by phrase
+// text, so a phrase used by several gestures shares one recording.
+const DB_NAME = 'blinkSpeechVoiceBank';
+const STORE = 'clips';
+
+export interface VoiceClip {
+  phrase: string;
+  // 16-bit mono WAV, already trimmed and normalized
+  audio: Blob;
+  duration: number;
+  updatedAt: number;
+}
+
+// Clips as data URLs keyed by phrase, for export files and backend sync
+export type VoiceClipBundle = Record<string, string>;
+
+const clipKey = (phrase: string) => phrase.trim();
+
+const db = openStoreDatabase(DB_NAME, 1, database => database.createObjectStore(STORE, { keyPath: 'phrase' }));
+
+function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return db.withStore(STORE, mode, run);
+}
+
+export async function getClip(phrase: string): Promise<VoiceClip | null> {
+  try {
+    return (await withStore<VoiceClip | undefined>('readonly', store => store.get(clipKey(phrase)))) ?? null;
+  } catch (error) {
+    console.error('Failed to load voice clip:', error);
+    return null;
+  }
+}
+
+export async function saveClip(phrase: string, audio: Blob, duration: number): Promise<VoiceClip> {
+  const clip: VoiceClip = { phrase: clipKey(phrase), audio, duration, updatedAt: Date.now() };
+  await withStore('readwrite', store => store.put(clip));
+  return clip;
+}
+
+export async function deleteClip(phrase: string) {
+  await withStore('readwrite', store => store.delete(clipKey(phrase)));
+}
+
+export async function listClipPhrases(): Promise<string[]> {
+  try {
+    return (await withStore('readonly', store => store.getAllKeys())) as string[];
+  } catch (error) {
+    console.error('Failed to list voice clips:', error);
+    return [];
+  }
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Clips for the given phrases, for exporting alongside a mapping
+export async function exportClips(phrases: string[]): Promise<VoiceClipBundle> {
+  const bundle: VoiceClipBundle = {};
+  for (const phrase of new Set(phrases.map(clipKey))) {
+    const clip = await getClip(phrase);
+    if (clip) bundle[phrase] = await blobToDataUrl(clip.audio);
+  }
+  return bundle;
+}
+
+// Store every clip in a bundle, replacing existing recordings; returns how many were imported
+export async function importClips(bundle: VoiceClipBundle): Promise<number> {
+  let count = 0;
+  for (const [phrase, dataUrl] of Object.entries(bundle)) {
+    if (typeof dataUrl !== 'string' || !dataUrl.startsWith('data:audio/')) continue;
+    const audio = await (await fetch(dataUrl)).blob();
+    // 16-bit mono WAV: 44 byte header, 2 bytes per sample; the rate is at byte 24
+    const sampleRate = new DataView(await audio.slice(24, 28).arrayBuffer()).getUint32(0, true);
+    await saveClip(phrase, audio, sampleRate ? (audio.size - 44) / 2 / sampleRate : 0);
+    count++;
+  }
+  return count;
+}